@@ -7,9 +7,18 @@ const CacheModeSchema = Type.Union([
   Type.Literal("memory"),
   Type.Literal("hybrid"),
   Type.Literal("redis"),
+  Type.Literal("s3"),
   Type.Literal("none"),
 ]);
 
+// Individual stores that CACHE_TIERS composes, fastest first
+const CacheTierSchema = Type.Union([
+  Type.Literal("memory"),
+  Type.Literal("disk"),
+  Type.Literal("redis"),
+  Type.Literal("s3"),
+]);
+
 const ImageFormatSchema = Type.Union([
   Type.Literal("webp"),
   Type.Literal("avif"),
@@ -17,6 +26,9 @@ const ImageFormatSchema = Type.Union([
   Type.Literal("jpg"),
   Type.Literal("jpeg"),
   Type.Literal("gif"),
+  Type.Literal("tiff"),
+  Type.Literal("heic"),
+  Type.Literal("jxl"),
 ]);
 
 const ConfigSchema = Type.Object({
@@ -25,10 +37,16 @@ const ConfigSchema = Type.Object({
 
   // Cache settings
   cacheMode: Type.Optional(CacheModeSchema),
+  cacheTiers: Type.Array(CacheTierSchema, { default: [] }), // Overrides cacheMode
   cacheDir: Type.String({ default: "./cache" }),
   cacheTTL: Type.Number({ default: 86400, minimum: 0 }), // 24 hours in seconds
-  maxCacheSize: Type.Number({ default: 1073741824, minimum: 0 }), // 1GB
+  cacheStaleTTL: Type.Number({ default: 0, minimum: 0 }), // Seconds past cacheTTL to serve stale, 0 = off
+  maxCacheSize: Type.Number({ default: 1073741824, minimum: 0 }), // 1GB disk budget, 0 = unlimited
   maxMemoryCacheItems: Type.Number({ default: 1000, minimum: 1 }),
+  maxMemoryCacheBytes: Type.Number({ default: 268435456, minimum: 0 }), // 256MB
+  maxMemoryCacheEntryBytes: Type.Number({ default: 16777216, minimum: 0 }), // 16MB
+  sourceCacheTTL: Type.Number({ default: 3600, minimum: 0 }), // 0 = disabled
+  maxSourceCacheSize: Type.Number({ default: 268435456, minimum: 0 }), // 256MB
 
   // Security
   allowedDomains: Type.Array(Type.String(), { default: [] }),
@@ -39,12 +57,21 @@ const ConfigSchema = Type.Object({
   allowSelfReference: Type.Boolean({ default: false }), // Allow fetching from own /og endpoint
   maxImageSize: Type.Number({ default: 10485760, minimum: 0 }), // 10MB
   requestTimeout: Type.Number({ default: 30000, minimum: 0 }), // 30s
+  signingSecret: Type.String({ default: "" }), // Empty = signed URLs not required
+  adminToken: Type.String({ default: "" }), // Empty = admin API disabled
+  allowedInputFormats: Type.Array(Type.String(), {
+    default: ["jpeg", "png", "webp", "avif", "gif", "tiff", "heif", "svg"],
+  }),
 
   // Image defaults
   defaultQuality: Type.Number({ default: 80, minimum: 1, maximum: 100 }),
   defaultFormat: Type.Optional(ImageFormatSchema),
   maxWidth: Type.Number({ default: 4096, minimum: 1 }),
   maxHeight: Type.Number({ default: 4096, minimum: 1 }),
+  maxInputPixels: Type.Number({ default: 100_000_000, minimum: 1 }), // 100 megapixels
+  maxInputWidth: Type.Number({ default: 16384, minimum: 1 }),
+  maxInputHeight: Type.Number({ default: 16384, minimum: 1 }),
+  clientHints: Type.Boolean({ default: false }), // Size images from Sec-CH-* request headers
 
   // Cache headers
   browserCacheTTL: Type.Number({ default: 31536000, minimum: 0 }), // 1 year
@@ -58,11 +85,24 @@ const ConfigSchema = Type.Object({
   // Custom templates directory
   templatesDir: Type.String({ default: "./templates" }),
 
+  // Image transformation presets directory
+  presetsDir: Type.String({ default: "./presets" }),
+
   // Redis cache settings
   redisUrl: Type.String({ default: "redis://localhost:6379" }),
   redisKeyPrefix: Type.String({ default: "ps:" }),
   redisConnectionTimeout: Type.Number({ default: 5000, minimum: 0 }),
   redisMaxRetries: Type.Number({ default: 10, minimum: 0 }),
+  redisRenderLock: Type.Boolean({ default: false }), // Dedupe renders across workers
+  redisRenderLockTimeout: Type.Number({ default: 30000, minimum: 0 }),
+
+  // S3-compatible object storage cache settings
+  s3Endpoint: Type.String({ default: "" }), // Empty = AWS
+  s3Bucket: Type.String({ default: "" }),
+  s3Prefix: Type.String({ default: "pixelserve/", minLength: 1 }), // "" would let flush empty the bucket
+  s3Region: Type.String({ default: "us-east-1" }),
+  s3AccessKeyId: Type.String({ default: "" }),
+  s3SecretAccessKey: Type.String({ default: "" }),
 
   // Clustering
   clusterWorkers: Type.Number({ default: 0, minimum: 0 }), // 0 = auto (CPU cores)
@@ -88,29 +128,54 @@ function parseListLower(value: string | undefined): string[] {
 const rawConfig = {
   port: parseInt(process.env.PORT || "3000", 10),
   cacheMode: (process.env.CACHE_MODE || "disk").toLowerCase(),
+  cacheTiers: parseListLower(process.env.CACHE_TIERS),
   cacheDir: process.env.CACHE_DIR || "./cache",
   cacheTTL: parseInt(process.env.CACHE_TTL || "86400", 10),
+  cacheStaleTTL: parseInt(process.env.CACHE_STALE_TTL || "0", 10),
   maxCacheSize: parseInt(process.env.MAX_CACHE_SIZE || "1073741824", 10),
   maxMemoryCacheItems: parseInt(
     process.env.MAX_MEMORY_CACHE_ITEMS || "1000",
     10,
   ),
+  maxMemoryCacheBytes: parseInt(
+    process.env.MAX_MEMORY_CACHE_BYTES || "268435456",
+    10,
+  ),
+  maxMemoryCacheEntryBytes: parseInt(
+    process.env.MAX_MEMORY_CACHE_ENTRY_BYTES || "16777216",
+    10,
+  ),
+  sourceCacheTTL: parseInt(process.env.SOURCE_CACHE_TTL || "3600", 10),
+  maxSourceCacheSize: parseInt(
+    process.env.MAX_SOURCE_CACHE_SIZE || "268435456",
+    10,
+  ),
   allowedDomains: parseListLower(process.env.ALLOWED_DOMAINS),
   allowedOrigins: parseList(process.env.ALLOWED_ORIGINS),
   blockedDomains: ["localhost", "127.0.0.1", "0.0.0.0", "::1"],
   allowSelfReference: process.env.ALLOW_SELF_REFERENCE === "true",
   maxImageSize: parseInt(process.env.MAX_IMAGE_SIZE || "10485760", 10),
   requestTimeout: parseInt(process.env.REQUEST_TIMEOUT || "30000", 10),
+  signingSecret: process.env.SIGNING_SECRET || "",
+  adminToken: process.env.ADMIN_TOKEN || "",
+  allowedInputFormats: process.env.ALLOWED_INPUT_FORMATS
+    ? parseListLower(process.env.ALLOWED_INPUT_FORMATS)
+    : ["jpeg", "png", "webp", "avif", "gif", "tiff", "heif", "svg"],
   defaultQuality: 80,
   defaultFormat: "webp",
   maxWidth: 4096,
   maxHeight: 4096,
+  maxInputPixels: parseInt(process.env.MAX_INPUT_PIXELS || "100000000", 10),
+  maxInputWidth: parseInt(process.env.MAX_INPUT_WIDTH || "16384", 10),
+  maxInputHeight: parseInt(process.env.MAX_INPUT_HEIGHT || "16384", 10),
+  clientHints: process.env.CLIENT_HINTS === "true",
   browserCacheTTL: parseInt(process.env.BROWSER_CACHE_TTL || "31536000", 10),
   ogDefaultWidth: 1200,
   ogDefaultHeight: 630,
   ogDefaultBg: "1a1a2e",
   ogDefaultFg: "ffffff",
   templatesDir: process.env.TEMPLATES_DIR || "./templates",
+  presetsDir: process.env.PRESETS_DIR || "./presets",
   redisUrl: process.env.REDIS_URL || "redis://localhost:6379",
   redisKeyPrefix: process.env.REDIS_KEY_PREFIX || "ps:",
   redisConnectionTimeout: parseInt(
@@ -118,6 +183,17 @@ const rawConfig = {
     10,
   ),
   redisMaxRetries: parseInt(process.env.REDIS_MAX_RETRIES || "10", 10),
+  redisRenderLock: process.env.REDIS_RENDER_LOCK === "true",
+  redisRenderLockTimeout: parseInt(
+    process.env.REDIS_RENDER_LOCK_TIMEOUT || "30000",
+    10,
+  ),
+  s3Endpoint: process.env.S3_ENDPOINT || "",
+  s3Bucket: process.env.S3_BUCKET || "",
+  s3Prefix: process.env.S3_PREFIX ?? "pixelserve/",
+  s3Region: process.env.S3_REGION || "us-east-1",
+  s3AccessKeyId: process.env.S3_ACCESS_KEY_ID || "",
+  s3SecretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
   clusterWorkers: parseInt(process.env.CLUSTER_WORKERS || "0", 10),
 };
 
@@ -134,9 +210,10 @@ if (!Value.Check(ConfigSchema, rawConfig)) {
 // Export validated config
 export const config = rawConfig as Static<typeof ConfigSchema> & {
   cacheMode: CacheMode;
-  defaultFormat: "webp" | "avif" | "png" | "jpg" | "jpeg" | "gif";
+  defaultFormat: Static<typeof ImageFormatSchema>;
 };
 
 // Export types
 export type CacheMode = Static<typeof CacheModeSchema>;
+export type CacheTier = Static<typeof CacheTierSchema>;
 export type Config = typeof config;
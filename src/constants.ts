@@ -1,10 +1,22 @@
 // Cache
 export const CACHE_CLEANUP_INTERVAL_MS = 3_600_000;
+export const RENDER_LOCK_POLL_MS = 100;
+export const SOURCE_CACHE_DIR = "sources"; // Subdirectory of CACHE_DIR
+export const TAG_INDEX_DIR = "tags"; // Subdirectory of CACHE_DIR
 
 // Image processing - blur
 export const BLUR_MIN = 0.3;
 export const BLUR_MAX = 1000;
 
+// Image processing - client hints, snapped so header values can't mint
+// cache keys (ratios run up to the dpr param's maximum of 4)
+export const CLIENT_HINT_DPRS = [1, 1.5, 2, 3, 4];
+export const CLIENT_HINT_WIDTH_STEP = 100; // CSS pixels
+
+// Image processing - SVG rasterization (DPI)
+export const SVG_DEFAULT_DENSITY = 72;
+export const SVG_MAX_DENSITY = 2400;
+
 // Image processing - watermark defaults
 export const DEFAULT_WATERMARK_FONT_SIZE = 24;
 export const TEXT_WIDTH_MULTIPLIER = 0.7;
@@ -16,3 +28,14 @@ export const MAX_REDIRECTS = 5;
 
 // Shutdown
 export const SHUTDOWN_TIMEOUT_MS = 10_000;
+
+// Srcset
+export const DEFAULT_SRCSET_WIDTHS = [320, 640, 768, 1024, 1280, 1536, 1920];
+export const DEFAULT_SRCSET_STEP = 160;
+export const MAX_SRCSET_VARIANTS = 20;
+
+// Batch
+export const MAX_BATCH_VARIANTS = 10;
+
+// Uploads - room for form fields and multipart framing beyond the image
+export const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
@@ -3,29 +3,27 @@ import { Elysia } from "elysia";
 import { config } from "./config";
 import { CACHE_CLEANUP_INTERVAL_MS, SHUTDOWN_TIMEOUT_MS } from "./constants";
 import { createOriginGuard } from "./middleware/origin-validator";
+import { adminRoutes } from "./routes/admin";
 import { healthRoutes } from "./routes/health";
 import { imageRoutes } from "./routes/image";
 import { ogRoutes } from "./routes/og";
 import {
-  disconnectRedisCache,
-  initRedisCache,
+  closeCache,
+  initCache,
   maskRedisUrl,
   startCacheCleanup,
 } from "./services/cache";
+import { getOutputFormats } from "./services/format-support";
 
 // Detect if running as a cluster worker
 const isWorker = process.env.PIXELSERVE_WORKER_ID !== undefined;
 const workerId = process.env.PIXELSERVE_WORKER_ID || "0";
 
-// Ensure cache directory exists (for disk and hybrid modes)
-if (config.cacheMode === "disk" || config.cacheMode === "hybrid") {
-  await Bun.$`mkdir -p ${config.cacheDir}`.quiet();
-}
+// Prepare each cache tier: index the disk cache, connect to Redis, set up S3
+await initCache();
 
-// Initialize Redis cache if configured
-if (config.cacheMode === "redis") {
-  await initRedisCache();
-}
+// Probe which output formats the installed libvips can encode
+const outputFormats = await getOutputFormats();
 
 const app = new Elysia()
   .use(
@@ -56,16 +54,17 @@ const app = new Elysia()
     name: "PixelServe",
     version: "1.0.0",
     endpoints: {
-      image:
-        "/image?url=<source>&w=<width>&h=<height>&format=<webp|avif|png|jpg>",
+      image: `/image?url=<source>&w=<width>&h=<height>&format=<${outputFormats.join("|")}>`,
       og: "/og?title=<title>&description=<desc>&bg=<hex>&fg=<hex>",
       health: "/health",
     },
+    formats: outputFormats,
     documentation: "https://github.com/climactic/pixelserve",
   }))
   .use(healthRoutes)
   .use(imageRoutes)
   .use(ogRoutes)
+  .use(adminRoutes)
   .listen({
     port: config.port,
     reusePort: isWorker,
@@ -78,6 +77,10 @@ if (!isWorker || workerId === "0") {
 
 // Build cache info string based on mode
 function getCacheInfo(): string {
+  if (config.cacheTiers.length > 0) {
+    return `tiered (${config.cacheTiers.join(" → ")})`;
+  }
+
   switch (config.cacheMode) {
     case "disk":
       return `disk (${config.cacheDir})`;
@@ -87,6 +90,8 @@ function getCacheInfo(): string {
       return `hybrid (memory + ${config.cacheDir})`;
     case "redis":
       return `redis (${maskRedisUrl(config.redisUrl)})`;
+    case "s3":
+      return `s3 (${config.s3Bucket}/${config.s3Prefix})`;
     case "none":
       return "disabled";
   }
@@ -124,6 +129,7 @@ ${c.magenta}  ____  _          _ ____
   ${c.bold}Server:${c.reset}    ${c.cyan}http://localhost:${config.port}${c.reset}
   ${c.bold}Process:${c.reset}   ${c.green}${getProcessInfo()}${c.reset}
   ${c.bold}Cache:${c.reset}     ${c.yellow}${getCacheInfo()}${c.reset}
+  ${c.bold}Formats:${c.reset}   ${c.yellow}${outputFormats.join(", ")}${c.reset}
 
   ${c.bold}Endpoints:${c.reset}
     ${c.green}/image${c.reset}   Transform and optimize images
@@ -136,14 +142,14 @@ ${c.magenta}  ____  _          _ ____
     ${c.dim}Discord:${c.reset} ${c.blue}https://go.climactic.co/discord${c.reset}
 `);
 
-// Graceful shutdown — stop server before tearing down Redis
+// Graceful shutdown — stop server before closing cache connections
 const shutdown = async () => {
   const forceExit = setTimeout(() => process.exit(1), SHUTDOWN_TIMEOUT_MS);
   try {
     if (typeof app.stop === "function") {
       await app.stop();
     }
-    await disconnectRedisCache();
+    await closeCache();
   } finally {
     clearTimeout(forceExit);
     process.exit(0);
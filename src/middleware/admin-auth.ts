@@ -0,0 +1,32 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { config } from "../config";
+import { NotFoundError, UnauthorizedError } from "../utils/errors";
+
+// Compare digests so neither the token's length nor content leaks via timing
+function tokensMatch(provided: string, expected: string): boolean {
+  const a = createHash("sha256").update(provided).digest();
+  const b = createHash("sha256").update(expected).digest();
+  return timingSafeEqual(a, b);
+}
+
+/**
+ * Creates an Elysia beforeHandle hook that requires
+ * `Authorization: Bearer <ADMIN_TOKEN>`. Without a configured token the
+ * admin API doesn't exist and every route answers 404.
+ */
+export function createAdminGuard() {
+  return ({ request }: { request: Request }) => {
+    if (!config.adminToken) {
+      throw new NotFoundError("Route not found");
+    }
+
+    const header = request.headers.get("Authorization") || "";
+    const [scheme, token] = header.split(" ", 2);
+    if (scheme !== "Bearer" || !token) {
+      throw new UnauthorizedError("Missing admin token");
+    }
+    if (!tokensMatch(token, config.adminToken)) {
+      throw new UnauthorizedError("Invalid admin token");
+    }
+  };
+}
@@ -6,8 +6,11 @@ export function createOriginGuard(allowedOrigins: string[]) {
   return ({ request, set }: { request: Request; set: { status?: number } }) => {
     if (allowedOrigins.length === 0) return;
 
+    // Health checks and the token-authenticated admin API aren't browser traffic
     const url = new URL(request.url);
-    if (url.pathname === "/health") return;
+    if (url.pathname === "/health" || url.pathname.startsWith("/admin/")) {
+      return;
+    }
 
     const origin = request.headers.get("Origin");
     const referer = request.headers.get("Referer");
@@ -0,0 +1,35 @@
+import { config } from "../config";
+import type { CacheKeyParams } from "../types";
+import { type SignatureScope, verifySignature } from "../utils/signature";
+
+interface SignedRequestContext {
+  request: Request;
+  params?: Record<string, string | undefined>;
+}
+
+// Query params plus path params (e.g. a preset name) as if they were query params
+function getRequestParams({
+  request,
+  params,
+}: SignedRequestContext): CacheKeyParams {
+  return {
+    ...Object.fromEntries(new URL(request.url).searchParams),
+    ...params,
+  };
+}
+
+/**
+ * Creates an Elysia beforeHandle hook that requires a valid `s=` signature
+ * over the request's params when a signing secret is configured. Routes that
+ * encode params outside the query string pass their own extractor.
+ */
+export function createSignatureGuard(
+  scope: SignatureScope,
+  getParams: (ctx: SignedRequestContext) => CacheKeyParams = getRequestParams,
+) {
+  return (ctx: SignedRequestContext) => {
+    if (!config.signingSecret) return;
+
+    verifySignature(scope, getParams(ctx), config.signingSecret);
+  };
+}
@@ -0,0 +1,62 @@
+import { Elysia, t } from "elysia";
+import { createAdminGuard } from "../middleware/admin-auth";
+import { createErrorHandler } from "../middleware/error-handler";
+import {
+  flushCache,
+  purgeCacheKey,
+  purgeSource,
+  purgeTag,
+  templateTag,
+} from "../services/cache";
+import { ValidationError } from "../utils/errors";
+
+const adminGuard = createAdminGuard();
+
+// SHA-256 hex, as produced by generateCacheKey
+const CACHE_KEY_PATTERN = /^[a-f0-9]{64}$/;
+
+// Cache invalidation. Purges apply to every configured tier; memory tiers
+// are per process, so in cluster mode only the receiving worker's is cleared.
+export const adminRoutes = new Elysia({ prefix: "/admin" })
+  .onError(createErrorHandler("Admin error"))
+  // Flush everything, including cached sources
+  .delete(
+    "/cache",
+    async () => {
+      await flushCache();
+      return { flushed: true };
+    },
+    { beforeHandle: adminGuard },
+  )
+  // Purge one output by cache key (as listed by /image/srcset and /image/batch)
+  .delete(
+    "/cache/keys/:key",
+    async ({ params }) => {
+      if (!CACHE_KEY_PATTERN.test(params.key)) {
+        throw new ValidationError("Cache key must be 64 hex characters");
+      }
+      await purgeCacheKey(params.key);
+      return { purged: 1 };
+    },
+    { beforeHandle: adminGuard },
+  )
+  // Purge every variant rendered from a source URL, and the source itself
+  .delete(
+    "/cache/sources",
+    async ({ query }) => ({ purged: await purgeSource(query.url) }),
+    {
+      query: t.Object({ url: t.String({ minLength: 1 }) }),
+      beforeHandle: adminGuard,
+    },
+  )
+  // Purge every OG image rendered with a template
+  .delete(
+    "/cache/templates/:name",
+    async ({ params }) => ({
+      purged: await purgeTag(templateTag(params.name)),
+    }),
+    {
+      params: t.Object({ name: t.String({ minLength: 1 }) }),
+      beforeHandle: adminGuard,
+    },
+  );
@@ -1,6 +1,13 @@
 import { Elysia } from "elysia";
 import { config } from "../config";
-import { getCacheStats } from "../services/cache";
+import {
+  getCacheStats,
+  getCacheTiers,
+  getRenderStats,
+} from "../services/cache";
+import { getOutputFormats } from "../services/format-support";
+import { getFetchStats } from "../services/image-fetcher";
+import { getSourceCacheStats } from "../services/source-cache";
 
 const startTime = Date.now();
 
@@ -11,11 +18,16 @@ export const healthRoutes = new Elysia().get("/health", async ({ set }) => {
     status: "ok" as "ok" | "degraded",
     uptime: Math.floor((Date.now() - startTime) / 1000),
     cache: cacheStats,
+    fetch: getFetchStats(),
+    sources: getSourceCacheStats(),
+    renders: getRenderStats(),
+    formats: await getOutputFormats(),
     version: "1.0.0",
   };
 
-  // Check disk cache directory exists if using disk/hybrid mode
-  if (config.cacheMode === "disk" || config.cacheMode === "hybrid") {
+  // Check disk cache directory exists if a disk tier is active
+  const tiers = getCacheTiers();
+  if (tiers.includes("disk")) {
     const cacheDir = Bun.file(config.cacheDir);
     const cacheExists = await cacheDir.exists().catch(() => false);
     if (!cacheExists) {
@@ -24,7 +36,12 @@ export const healthRoutes = new Elysia().get("/health", async ({ set }) => {
   }
 
   // Check Redis connection health
-  if (config.cacheMode === "redis" && cacheStats.connected === false) {
+  if (tiers.includes("redis") && cacheStats.connected === false) {
+    status.status = "degraded";
+  }
+
+  // S3 mode without a bucket runs uncached
+  if (tiers.includes("s3") && !config.s3Bucket) {
     status.status = "degraded";
   }
 
@@ -1,19 +1,50 @@
-import { Elysia, t } from "elysia";
+import { Value } from "@sinclair/typebox/value";
+import { type Context, Elysia, t } from "elysia";
+import { config } from "../config";
+import { MAX_BATCH_VARIANTS } from "../constants";
 import { createErrorHandler } from "../middleware/error-handler";
+import { createSignatureGuard } from "../middleware/signature-guard";
 import {
+  createCacheEntry,
   generateCacheKey,
-  getCached,
-  getCacheHeaders,
-  setCache,
+  getEntryHeaders,
+  getOrRender,
+  sourceTag,
 } from "../services/cache";
+import {
+  getUploadSourceUrl,
+  readFormBody,
+  readUploadedFile,
+  readUploadedImage,
+} from "../services/image-upload";
+import { getOutputFormats } from "../services/format-support";
 import { processImage } from "../services/image-processor";
-import { type ImageParams, imageParamsToCacheKeyParams } from "../types";
+import { getPreset, initPresets } from "../services/presets";
+import { getSourceImage } from "../services/source-cache";
+import {
+  buildSrcset,
+  getSrcsetVariants,
+  getSrcsetWidths,
+} from "../services/srcset";
+import {
+  type CacheEntry,
+  type ImageParams,
+  imageParamsToCacheKeyParams,
+} from "../types";
+import { applyClientHints } from "../utils/client-hints";
+import { isNotModified } from "../utils/conditional-request";
+import { NotFoundError, ValidationError } from "../utils/errors";
+import { negotiateFormat } from "../utils/format-negotiation";
+import { encodeMultipart } from "../utils/multipart";
+import { parseImagePath } from "../utils/path-options";
+import { EXPIRY_PARAM, signUrl, verifyBodyDigest } from "../utils/signature";
 
 const imageQuerySchema = t.Object({
   url: t.String({ minLength: 1 }),
   w: t.Optional(t.Numeric({ minimum: 1, maximum: 4096 })),
   h: t.Optional(t.Numeric({ minimum: 1, maximum: 4096 })),
   size: t.Optional(t.Numeric({ minimum: 1, maximum: 100 })),
+  dpr: t.Optional(t.Numeric({ minimum: 1, maximum: 4 })),
   fit: t.Optional(
     t.Union([
       t.Literal("cover"),
@@ -47,6 +78,11 @@ const imageQuerySchema = t.Object({
       t.Literal("jpg"),
       t.Literal("jpeg"),
       t.Literal("gif"),
+      t.Literal("tiff"),
+      t.Literal("heic"),
+      t.Literal("jxl"),
+      t.Literal("svg"),
+      t.Literal("auto"),
     ]),
   ),
   blur: t.Optional(t.Numeric({ minimum: 0.3, maximum: 1000 })),
@@ -60,6 +96,31 @@ const imageQuerySchema = t.Object({
   tint: t.Optional(t.String({ pattern: "^[0-9A-Fa-f]{3,6}$" })),
   trim: t.Optional(t.BooleanString()),
   crop: t.Optional(t.String({ pattern: "^\\d+,\\d+,\\d+,\\d+$" })),
+  density: t.Optional(t.Numeric({ minimum: 1, maximum: 2400 })),
+  animated: t.Optional(t.BooleanString()),
+  frames: t.Optional(t.Numeric({ minimum: 1 })),
+  effort: t.Optional(t.Numeric({ minimum: 0, maximum: 9, multipleOf: 1 })),
+  lossless: t.Optional(t.BooleanString()),
+  near_lossless: t.Optional(t.BooleanString()),
+  chroma_subsampling: t.Optional(
+    t.Union([t.Literal("4:2:0"), t.Literal("4:4:4")]),
+  ),
+  progressive: t.Optional(t.BooleanString()),
+  colors: t.Optional(t.Numeric({ minimum: 2, maximum: 256, multipleOf: 1 })),
+  dither: t.Optional(t.Numeric({ minimum: 0, maximum: 1 })),
+  // 8, 10 or 12 (numeric literals aren't coerced from query strings)
+  bitdepth: t.Optional(t.Numeric({ minimum: 8, maximum: 12, multipleOf: 2 })),
+  compression: t.Optional(
+    t.Union([
+      t.Literal("none"),
+      t.Literal("jpeg"),
+      t.Literal("deflate"),
+      t.Literal("lzw"),
+      t.Literal("packbits"),
+      t.Literal("webp"),
+      t.Literal("zstd"),
+    ]),
+  ),
   wm_image: t.Optional(t.String()),
   wm_position: t.Optional(
     t.Union([
@@ -81,70 +142,501 @@ const imageQuerySchema = t.Object({
   wm_font: t.Optional(t.String()),
   wm_fontsize: t.Optional(t.Numeric({ minimum: 8, maximum: 200 })),
   wm_color: t.Optional(t.String({ pattern: "^[0-9A-Fa-f]{3,8}$" })),
+  // Named preset (merged into the query before validation)
+  preset: t.Optional(t.String()),
+  // URL signing (verified against the raw query string)
+  s: t.Optional(t.String()),
+  exp: t.Optional(t.Numeric()),
 });
 
+const imageSrcsetQuerySchema = t.Object({
+  ...imageQuerySchema.properties,
+  widths: t.Optional(t.String({ pattern: "^\\d+(,\\d+)*$" })),
+  min: t.Optional(t.Numeric({ minimum: 1 })),
+  max: t.Optional(t.Numeric({ minimum: 1 })),
+  step: t.Optional(t.Numeric({ minimum: 1 })),
+  sizes: t.Optional(t.String({ maxLength: 1000 })),
+  warm: t.Optional(t.BooleanString()),
+});
+
+// Uploads: the /image params without a source URL, which the body replaces
+const { url: _url, ...imageUploadProperties } = imageQuerySchema.properties;
+const imageUploadQuerySchema = t.Object(imageUploadProperties);
+
+// Batch variants: the upload params without signing
+const { s: _s, exp: _exp, ...imageVariantProperties } = imageUploadProperties;
+const imageVariantSchema = t.Object(imageVariantProperties);
+
+type ImageQuery = typeof imageQuerySchema.static;
+
+// Params a strict preset still accepts from the query
+const PRESET_RESERVED_PARAMS = new Set([
+  "url",
+  "preset",
+  "s",
+  "exp",
+  // Srcset options
+  "widths",
+  "min",
+  "max",
+  "step",
+  "sizes",
+  "warm",
+]);
+
+// Merges a named preset into the raw query before validation, so preset
+// values go through the same schema checks as explicit params. Explicit
+// query params win over preset values.
+async function applyPreset({
+  query,
+  params,
+}: {
+  query: Record<string, unknown>;
+  params?: Record<string, string | undefined>;
+}): Promise<void> {
+  const name = params?.preset ?? query.preset;
+  if (typeof name !== "string" || !name) return;
+
+  await initPresets();
+  const preset = getPreset(name);
+  if (!preset) {
+    throw new NotFoundError(`Preset "${name}" not found`);
+  }
+
+  if (preset.strict) {
+    for (const key of Object.keys(query)) {
+      if (!PRESET_RESERVED_PARAMS.has(key) && !(key in preset.params)) {
+        throw new ValidationError(
+          `Parameter "${key}" is not allowed by preset "${name}"`,
+        );
+      }
+    }
+  }
+
+  for (const [key, value] of Object.entries(preset.params)) {
+    if (query[key] === undefined && value !== undefined) {
+      query[key] = String(value);
+    }
+  }
+}
+
+// Path form: /image/<options>/<encoded-source-url>
+function getPathParams(
+  request: Request,
+  params?: Record<string, string | undefined>,
+): Record<string, string> {
+  return {
+    ...Object.fromEntries(new URL(request.url).searchParams),
+    ...parseImagePath(params?.options ?? "", params?.["*"] ?? ""),
+  };
+}
+
+// Replaces the query with the params encoded in the path, so both URL
+// styles go through the same schema validation and share cache entries
+function applyPathOptions({
+  query,
+  request,
+  params,
+}: {
+  query: Record<string, unknown>;
+  request: Request;
+  params?: Record<string, string | undefined>;
+}): void {
+  Object.assign(query, getPathParams(request, params));
+}
+
+function queryToImageParams(query: ImageQuery): ImageParams {
+  return {
+    url: query.url,
+    w: query.w,
+    h: query.h,
+    size: query.size,
+    dpr: query.dpr,
+    fit: query.fit,
+    position: query.position,
+    q: query.q,
+    format: query.format,
+    blur: query.blur,
+    grayscale: query.grayscale,
+    rotate: query.rotate,
+    flip: query.flip,
+    flop: query.flop,
+    brightness: query.brightness,
+    saturation: query.saturation,
+    sharpen: query.sharpen,
+    tint: query.tint,
+    trim: query.trim,
+    crop: query.crop,
+    density: query.density,
+    animated: query.animated,
+    frames: query.frames,
+    effort: query.effort,
+    lossless: query.lossless,
+    near_lossless: query.near_lossless,
+    chroma_subsampling: query.chroma_subsampling,
+    progressive: query.progressive,
+    colors: query.colors,
+    dither: query.dither,
+    bitdepth: query.bitdepth as ImageParams["bitdepth"],
+    compression: query.compression,
+    wm_image: query.wm_image,
+    wm_text: query.wm_text,
+    wm_position: query.wm_position,
+    wm_opacity: query.wm_opacity,
+    wm_scale: query.wm_scale,
+    wm_padding: query.wm_padding,
+    wm_font: query.wm_font,
+    wm_fontsize: query.wm_fontsize,
+    wm_color: query.wm_color,
+  };
+}
+
+// Resolve format=auto from the Accept header so each negotiated
+// format gets its own cache entry. Clients without AVIF/WebP support
+// keep "auto" and get PNG or JPEG depending on the source's alpha.
+// Formats the startup probe couldn't encode are never negotiated.
+async function resolveAutoFormat(
+  params: ImageParams,
+  request: Request,
+): Promise<void> {
+  if (params.format === "auto") {
+    params.format =
+      negotiateFormat(
+        request.headers.get("accept"),
+        await getOutputFormats(),
+      ) ?? "auto";
+  }
+}
+
+// Looks up a processed image in the cache, rendering and storing it on a miss
+async function getImageEntry(
+  params: ImageParams,
+  loadSource?: () => Promise<Buffer>,
+): Promise<{ cacheKey: string; entry: CacheEntry; cached: boolean }> {
+  // Generate cache key from all parameters
+  const cacheKey = generateCacheKey(imageParamsToCacheKeyParams(params));
+
+  // Process image on a miss, sharing the render with concurrent identical
+  // misses. Stale hits are served while they refresh in the background.
+  const { entry, cached } = await getOrRender(cacheKey, async () => {
+    const { buffer, format, width, height } = await processImage(
+      params,
+      loadSource ? await loadSource() : undefined,
+    );
+    return createCacheEntry(buffer, format, { width, height });
+  }, [sourceTag(params.url)]);
+
+  return { cacheKey, entry, cached };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Validates one batch variant like a query string, after merging its preset
+async function parseBatchVariant(
+  raw: unknown,
+  index: number,
+  url: string,
+): Promise<ImageParams> {
+  if (!isPlainObject(raw)) {
+    throw new ValidationError(`variants[${index}] must be an object`);
+  }
+
+  const query: Record<string, unknown> = { ...raw };
+  await applyPreset({ query });
+
+  const error = Value.Errors(imageVariantSchema, query).First();
+  if (error) {
+    throw new ValidationError(
+      `Invalid variants[${index}]${error.path}: ${error.message}`,
+    );
+  }
+
+  return queryToImageParams({
+    ...Value.Decode(imageVariantSchema, query),
+    url,
+  });
+}
+
+interface BatchRequest {
+  url?: string;
+  upload?: { data: Buffer; hash: string };
+  variants: ImageParams[];
+  output: "json" | "multipart";
+}
+
+// Accepts a JSON body with a source URL, or multipart/form-data with the
+// source image in a "file" field and the variants as a JSON string. With
+// signing on, the body must match the digest in the signed URL.
+async function parseBatchRequest(request: Request): Promise<BatchRequest> {
+  const body = await readFormBody(request, (raw) => {
+    if (config.signingSecret) {
+      verifyBodyDigest(
+        Object.fromEntries(new URL(request.url).searchParams),
+        raw,
+      );
+    }
+  });
+  if (!isPlainObject(body)) {
+    throw new ValidationError("Batch request body must be a JSON object");
+  }
+
+  let upload: Buffer | undefined;
+  if (body.file !== undefined) {
+    upload = await readUploadedFile(body.file);
+  } else if (typeof body.url !== "string" || !body.url) {
+    throw new ValidationError("Batch request requires a url or a file");
+  }
+
+  let rawVariants = body.variants;
+  if (typeof rawVariants === "string") {
+    try {
+      rawVariants = JSON.parse(rawVariants);
+    } catch {
+      throw new ValidationError("variants must be valid JSON");
+    }
+  }
+  if (
+    !Array.isArray(rawVariants) ||
+    rawVariants.length === 0 ||
+    rawVariants.length > MAX_BATCH_VARIANTS
+  ) {
+    throw new ValidationError(
+      `variants must be an array of 1-${MAX_BATCH_VARIANTS} objects`,
+    );
+  }
+
+  const source = upload && getUploadSourceUrl(upload);
+  const url = source?.url ?? (body.url as string);
+
+  const output = body.output ?? (upload ? "multipart" : "json");
+  if (output !== "json" && output !== "multipart") {
+    throw new ValidationError('output must be "json" or "multipart"');
+  }
+
+  const variants: ImageParams[] = [];
+  for (const [index, raw] of rawVariants.entries()) {
+    variants.push(await parseBatchVariant(raw, index, url));
+  }
+
+  return upload && source
+    ? { upload: { data: upload, hash: source.hash }, variants, output }
+    : { url, variants, output };
+}
+
+// Variant URLs expire with the signed request that listed them
+function buildImageUrl(
+  origin: string,
+  params: ImageParams,
+  expiresAt?: number,
+): string {
+  const query = imageParamsToCacheKeyParams(params);
+  if (config.signingSecret) {
+    return signUrl(`${origin}/image`, query, { expiresAt });
+  }
+
+  const url = new URL(`${origin}/image`);
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) {
+      url.searchParams.set(key, String(value));
+    }
+  }
+  return url.toString();
+}
+
+async function serveImage(
+  params: ImageParams,
+  request: Request,
+  set: Context["set"],
+  loadSource?: () => Promise<Buffer>,
+): Promise<Response> {
+  await resolveAutoFormat(params, request);
+  if (config.clientHints) {
+    applyClientHints(params, request.headers);
+  }
+  const { cacheKey, entry } = await getImageEntry(params, loadSource);
+
+  // Return response with proper headers (304 for revalidating clients)
+  const headers = getEntryHeaders(cacheKey, entry);
+  set.headers = headers;
+  if (isNotModified(request, headers)) {
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(entry.data, { headers });
+}
+
 export const imageRoutes = new Elysia({ prefix: "/image" })
   .onError(createErrorHandler("Unexpected error"))
+  // Responsive srcset helper: one variant URL per width
   .get(
-    "/",
-    async ({ query, set }) => {
-      const params: ImageParams = {
-        url: query.url,
-        w: query.w,
-        h: query.h,
-        size: query.size,
-        fit: query.fit,
-        position: query.position,
-        q: query.q,
-        format: query.format,
-        blur: query.blur,
-        grayscale: query.grayscale,
-        rotate: query.rotate,
-        flip: query.flip,
-        flop: query.flop,
-        brightness: query.brightness,
-        saturation: query.saturation,
-        sharpen: query.sharpen,
-        tint: query.tint,
-        trim: query.trim,
-        crop: query.crop,
-        wm_image: query.wm_image,
-        wm_text: query.wm_text,
-        wm_position: query.wm_position,
-        wm_opacity: query.wm_opacity,
-        wm_scale: query.wm_scale,
-        wm_padding: query.wm_padding,
-        wm_font: query.wm_font,
-        wm_fontsize: query.wm_fontsize,
-        wm_color: query.wm_color,
+    "/srcset",
+    async ({ query, request }) => {
+      const base = queryToImageParams(query);
+      const widths = getSrcsetWidths(query, config.maxWidth);
+      const variants = getSrcsetVariants(base, widths, config.maxHeight);
+      const origin = new URL(request.url).origin;
+
+      // Fetch the source at most once, and only if a variant misses the cache
+      let source: Promise<Buffer> | undefined;
+      const loadSource = () => {
+        source ??= getSourceImage(base.url);
+        return source;
       };
 
-      // Generate cache key from all parameters
-      const cacheKey = generateCacheKey(imageParamsToCacheKeyParams(params));
+      const results = [];
+      for (const variant of variants) {
+        const url = buildImageUrl(origin, variant.params, query.exp);
+        const params = { ...variant.params };
+        await resolveAutoFormat(params, request);
 
-      // Check cache
-      const cached = await getCached(cacheKey);
-      if (cached) {
-        const format = params.format || "webp";
-        const headers = getCacheHeaders(format);
-        set.headers = headers;
-        return new Response(cached, { headers });
+        if (query.warm) {
+          // Warm sequentially to bound CPU use per request
+          const { cacheKey, cached } = await getImageEntry(params, loadSource);
+          results.push({ ...variant, url, cacheKey, cached });
+        } else {
+          const cacheKey = generateCacheKey(
+            imageParamsToCacheKeyParams(params),
+          );
+          results.push({ ...variant, url, cacheKey });
+        }
       }
 
-      // Process image
-      const { buffer, format } = await processImage(params);
+      return {
+        srcset: buildSrcset(results),
+        sizes: query.sizes || "100vw",
+        variants: results.map(({ params: _, ...variant }) => variant),
+      };
+    },
+    {
+      query: imageSrcsetQuerySchema,
+      transform: applyPreset,
+      beforeHandle: createSignatureGuard("srcset"),
+    },
+  )
+  .get(
+    "/",
+    ({ query, request, set }) =>
+      serveImage(queryToImageParams(query), request, set),
+    {
+      query: imageQuerySchema,
+      transform: applyPreset,
+      beforeHandle: createSignatureGuard("image"),
+    },
+  )
+  // Direct upload: raw image body or multipart "file" field
+  .post(
+    "/",
+    async ({ query, request, set }) => {
+      const upload = await readUploadedImage(request);
+      const params = queryToImageParams({
+        ...query,
+        url: getUploadSourceUrl(upload).url,
+      });
+      return serveImage(params, request, set, async () => upload);
+    },
+    {
+      query: imageUploadQuerySchema,
+      parse: "none",
+      transform: applyPreset,
+      beforeHandle: createSignatureGuard("upload"),
+    },
+  )
+  // Batch: several variants of one source, fetched once
+  .post(
+    "/batch",
+    async ({ request }) => {
+      const batch = await parseBatchRequest(request);
+      const requestUrl = new URL(request.url);
+      const origin = requestUrl.origin;
+      const exp = requestUrl.searchParams.get(EXPIRY_PARAM);
+      const expiresAt = exp === null ? undefined : Number(exp);
 
-      // Store in cache (async, don't wait)
-      setCache(cacheKey, buffer).catch((err) =>
-        console.error("Cache write error:", err),
-      );
+      let source: Promise<Buffer> | undefined;
+      const loadSource = () => {
+        source ??= batch.upload
+          ? Promise.resolve(batch.upload.data)
+          : getSourceImage(batch.url as string);
+        return source;
+      };
+
+      // Render sequentially to bound CPU use per request
+      const results = [];
+      for (const [index, variant] of batch.variants.entries()) {
+        const url = batch.url
+          ? buildImageUrl(origin, variant, expiresAt)
+          : undefined;
+        const params = { ...variant };
+        await resolveAutoFormat(params, request);
+        const { cacheKey, entry, cached } = await getImageEntry(
+          params,
+          loadSource,
+        );
+        results.push({ index, url, cacheKey, entry, cached });
+      }
+
+      if (batch.output === "multipart") {
+        const { body: multipartBody, contentType } = encodeMultipart(
+          results.map(({ index, cacheKey, entry }) => {
+            const headers = getEntryHeaders(cacheKey, entry);
+            return {
+              headers: {
+                "Content-Type": headers["Content-Type"] as string,
+                "Content-Disposition": `attachment; name="${index}"; filename="${index}.${entry.format}"`,
+                ETag: headers.ETag as string,
+                "X-Cache-Key": cacheKey,
+              },
+              body: entry.data,
+            };
+          }),
+        );
+        return new Response(multipartBody, {
+          headers: { "Content-Type": contentType },
+        });
+      }
 
-      // Return response with proper headers
-      const headers = getCacheHeaders(format);
-      set.headers = headers;
-      return new Response(buffer, { headers });
+      return {
+        source: batch.url ? { url: batch.url } : { upload: batch.upload?.hash },
+        variants: results.map(({ index, url, cacheKey, entry, cached }) => ({
+          index,
+          url,
+          cacheKey,
+          format: entry.format,
+          width: entry.width,
+          height: entry.height,
+          bytes: entry.data.length,
+          etag: getEntryHeaders(cacheKey, entry).ETag,
+          cached,
+        })),
+      };
     },
+    {
+      // Read the body ourselves to enforce the size limit while streaming
+      parse: "none",
+      beforeHandle: createSignatureGuard("batch"),
+    },
+  )
+  // Path form for presets: /image/p/<name>?url=...
+  .get(
+    "/p/:preset",
+    ({ query, request, set }) =>
+      serveImage(queryToImageParams(query), request, set),
+    {
+      query: imageQuerySchema,
+      transform: applyPreset,
+      beforeHandle: createSignatureGuard("image"),
+    },
+  )
+  // Path form for CDNs: /image/w_400,h_300,f_webp/<encoded-source-url>
+  .get(
+    "/:options/*",
+    ({ query, request, set }) =>
+      serveImage(queryToImageParams(query), request, set),
     {
       query: imageQuerySchema,
+      transform: [applyPathOptions, applyPreset],
+      beforeHandle: createSignatureGuard("image", ({ request, params }) =>
+        getPathParams(request, params),
+      ),
     },
   );
@@ -1,18 +1,23 @@
 import { Elysia, t } from "elysia";
+import { config } from "../config";
 import { createErrorHandler } from "../middleware/error-handler";
+import { createSignatureGuard } from "../middleware/signature-guard";
 import {
+  createCacheEntry,
   generateCacheKey,
-  getCached,
-  getCacheHeaders,
-  setCache,
+  getEntryHeaders,
+  getOrRender,
+  templateTag,
 } from "../services/cache";
 import {
   generateOGImage,
   getAvailableTemplates,
   getSuggestedFonts,
   getTemplateInfo,
+  resolveTemplateName,
 } from "../services/og-generator";
 import type { OGParams } from "../types";
+import { isNotModified } from "../utils/conditional-request";
 
 const ogQuerySchema = t.Object({
   title: t.Optional(t.String({ maxLength: 200 })),
@@ -42,6 +47,9 @@ const ogQuerySchema = t.Object({
   config: t.Optional(t.String({ maxLength: 10000 })),
   // Font options
   font: t.Optional(t.String({ maxLength: 50 })),
+  // URL signing (verified against the raw query string)
+  s: t.Optional(t.String()),
+  exp: t.Optional(t.Numeric()),
 });
 
 export const ogRoutes = new Elysia({ prefix: "/og" })
@@ -100,7 +108,7 @@ export const ogRoutes = new Elysia({ prefix: "/og" })
   })
   .get(
     "/",
-    async ({ query, set }) => {
+    async ({ query, request, set }) => {
       const params: OGParams = {
         title: query.title,
         description: query.description,
@@ -126,28 +134,34 @@ export const ogRoutes = new Elysia({ prefix: "/og" })
         ...params,
       } as Record<string, string | number | boolean | undefined>);
 
-      // Check cache
-      const cached = await getCached(cacheKey);
-      if (cached) {
-        const headers = getCacheHeaders("png");
-        set.headers = headers;
-        return new Response(cached, { headers });
-      }
-
-      // Generate OG image
-      const buffer = await generateOGImage(params);
+      // Tag with the template actually rendered, so purging "default"
+      // covers requests without template= and unknown names
+      const templateName = await resolveTemplateName(params);
 
-      // Store in cache
-      setCache(cacheKey, buffer).catch((err) =>
-        console.error("Cache write error:", err),
+      // Generate OG image once for concurrent identical misses. Stale hits
+      // are served while they refresh in the background.
+      const { entry } = await getOrRender(
+        cacheKey,
+        async () => {
+          const buffer = await generateOGImage(params);
+          return createCacheEntry(buffer, "png", {
+            width: params.w || config.ogDefaultWidth,
+            height: params.h || config.ogDefaultHeight,
+          });
+        },
+        templateName ? [templateTag(templateName)] : [],
       );
 
-      // Return response
-      const headers = getCacheHeaders("png");
+      // Return response (304 for revalidating clients)
+      const headers = getEntryHeaders(cacheKey, entry);
       set.headers = headers;
-      return new Response(buffer, { headers });
+      if (isNotModified(request, headers)) {
+        return new Response(null, { status: 304, headers });
+      }
+      return new Response(entry.data, { headers });
     },
     {
       query: ogQuerySchema,
+      beforeHandle: createSignatureGuard("og"),
     },
   );
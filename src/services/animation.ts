@@ -0,0 +1,141 @@
+import sharp from "sharp";
+import { config } from "../config";
+import type { ImageFormat, ImageParams } from "../types";
+import { ImageProcessingError, ImageTooLargeError } from "../utils/errors";
+
+export interface Animation {
+  frames: number;
+  delay?: number[]; // Per-frame delay in milliseconds
+  loop?: number; // 0 = loop forever
+}
+
+// Applies the still-image transforms to one decoded frame
+export type FrameTransform = (
+  pipeline: sharp.Sharp,
+  params: ImageParams,
+) => Promise<sharp.Sharp>;
+
+/**
+ * Returns the frames to keep from an animated source, or null when it is a
+ * still or the request asks for a poster frame (`animated=false` or
+ * `frames=1`). The decoded pixels of every kept frame count against
+ * MAX_INPUT_PIXELS.
+ */
+export async function getAnimation(
+  input: Buffer,
+  params: ImageParams,
+): Promise<Animation | null> {
+  if (params.animated === false || params.frames === 1) return null;
+
+  const {
+    pages = 1,
+    width = 0,
+    height = 0,
+    delay,
+    loop,
+  } = await sharp(input, { limitInputPixels: false }).metadata();
+  if (pages < 2) return null;
+
+  const frames = Math.min(pages, Math.floor(params.frames ?? pages));
+  if (width * height * frames > config.maxInputPixels) {
+    throw new ImageTooLargeError(
+      `Animation has ${width * height * frames} pixels across ${frames} frames, more than the ${config.maxInputPixels} limit`,
+    );
+  }
+
+  return { frames, delay: delay?.slice(0, frames), loop };
+}
+
+// libvips can't encode animated AVIF, so AVIF requests get animated WebP.
+// PNG and JPEG can't carry frames and fall back to the poster frame (null).
+export function getAnimatedFormat(format: ImageFormat): ImageFormat | null {
+  switch (format) {
+    case "gif":
+    case "webp":
+      return format;
+    case "avif":
+      return "webp";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Decodes each frame, runs it through `transform` and stacks the results
+ * into one multi-page image, ready for a GIF or WebP encoder. Trimming uses
+ * the first frame's bounds so every frame keeps the same size.
+ */
+export async function renderAnimation(
+  input: Buffer,
+  params: ImageParams,
+  animation: Animation,
+  transform: FrameTransform,
+): Promise<sharp.Sharp> {
+  const frameParams: ImageParams = { ...params, trim: false };
+  const frames: { data: Buffer; info: sharp.OutputInfo }[] = [];
+
+  for (let page = 0; page < animation.frames; page++) {
+    const pipeline = sharp(input, {
+      page,
+      failOnError: false,
+      limitInputPixels: config.maxInputPixels,
+    }).rotate();
+    const transformed = await transform(pipeline, frameParams);
+    frames.push(
+      await transformed
+        .ensureAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true }),
+    );
+  }
+
+  const first = frames[0];
+  if (!first) {
+    throw new ImageProcessingError("Animation has no frames");
+  }
+  const { width, height, channels } = first.info;
+  if (
+    frames.some(
+      ({ info }) =>
+        info.width !== width ||
+        info.height !== height ||
+        info.channels !== channels,
+    )
+  ) {
+    throw new ImageProcessingError("Animation frames differ in size");
+  }
+
+  let pages = frames;
+
+  if (params.trim) {
+    const raw = { width, height, channels };
+    const { info } = await sharp(first.data, { raw })
+      .trim()
+      .toBuffer({ resolveWithObject: true });
+    const box = {
+      left: -(info.trimOffsetLeft ?? 0),
+      top: -(info.trimOffsetTop ?? 0),
+      width: info.width,
+      height: info.height,
+    };
+    pages = await Promise.all(
+      frames.map(({ data }) =>
+        sharp(data, { raw })
+          .extract(box)
+          .raw()
+          .toBuffer({ resolveWithObject: true }),
+      ),
+    );
+  }
+
+  // Re-read the layout, as libvips may widen single-channel frames on extract
+  const page = pages[0]?.info ?? first.info;
+  return sharp(Buffer.concat(pages.map(({ data }) => data)), {
+    raw: {
+      width: page.width,
+      height: page.height * pages.length,
+      channels: page.channels,
+      pageHeight: page.height,
+    },
+  });
+}
@@ -1,75 +1,159 @@
-import { createHash } from "node:crypto";
-import { join } from "node:path";
-import { RedisClient } from "bun";
-import { type CacheMode, config } from "../config";
-import type { ImageFormat } from "../types";
-
-// In-memory LRU cache implementation
-interface MemoryCacheEntry {
+import { createHash, randomUUID } from "node:crypto";
+import {
+  appendFile,
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat as statFile,
+  unlink,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { RedisClient, S3Client } from "bun";
+import { type CacheMode, type CacheTier, config } from "../config";
+import {
+  RENDER_LOCK_POLL_MS,
+  SOURCE_CACHE_DIR,
+  TAG_INDEX_DIR,
+} from "../constants";
+import {
+  type CacheEntry,
+  type CacheKeyParams,
+  canonicalizeParams,
+  type ImageFormat,
+  type SourceEntry,
+} from "../types";
+import { CLIENT_HINTS } from "../utils/client-hints";
+import { createSingleFlight } from "../utils/single-flight";
+import { DiskCacheIndex } from "./disk-cache-index";
+
+interface StoredEntry {
   data: Buffer;
   createdAt: number;
 }
 
-class LRUCache {
-  private cache = new Map<string, MemoryCacheEntry>();
-  private maxItems: number;
+// How long entries are kept: fresh for cacheTTL, then served stale while
+// they refresh for cacheStaleTTL
+function getRetentionSeconds(): number {
+  return config.cacheTTL + config.cacheStaleTTL;
+}
+
+export function isStale(entry: StoredEntry): boolean {
+  return Date.now() - entry.createdAt >= config.cacheTTL * 1000;
+}
+
+interface LRULimits {
+  maxItems: number;
+  maxBytes: number;
+  maxEntryBytes: number; // Larger entries are never stored
+}
 
-  constructor(maxItems: number) {
-    this.maxItems = maxItems;
+// In-memory LRU cache implementation, bounded by item count and total bytes.
+// Limits are read on every write so config changes apply without a restart.
+class LRUCache<T extends StoredEntry = CacheEntry> {
+  private cache = new Map<string, T>();
+  private getLimits: () => LRULimits;
+  private bytes = 0;
+  private hitCount = 0;
+  private missCount = 0;
+
+  constructor(getLimits: () => LRULimits) {
+    this.getLimits = getLimits;
   }
 
-  get(key: string): Buffer | null {
+  get(key: string): T | null {
     const entry = this.cache.get(key);
-    if (!entry) return null;
+    if (!entry) {
+      this.missCount++;
+      return null;
+    }
 
     // Check if expired
     const age = Date.now() - entry.createdAt;
-    if (age > config.cacheTTL * 1000) {
-      this.cache.delete(key);
+    if (age > getRetentionSeconds() * 1000) {
+      this.delete(key);
+      this.missCount++;
       return null;
     }
+    this.hitCount++;
 
     // Move to end (most recently used)
     this.cache.delete(key);
     this.cache.set(key, entry);
 
-    return entry.data;
+    return entry;
   }
 
-  set(key: string, data: Buffer): void {
+  set(key: string, entry: T): void {
+    const { maxItems, maxBytes, maxEntryBytes } = this.getLimits();
+    this.delete(key);
+
+    // One huge entry must not flush the rest of the cache
+    if (entry.data.length > Math.min(maxEntryBytes, maxBytes)) return;
+
     // Remove oldest entries if at capacity
-    while (this.cache.size >= this.maxItems) {
+    while (
+      this.cache.size >= maxItems ||
+      this.bytes + entry.data.length > maxBytes
+    ) {
       const firstKey = this.cache.keys().next().value;
       if (firstKey) {
-        this.cache.delete(firstKey);
+        this.delete(firstKey);
       } else {
         break;
       }
     }
 
-    this.cache.set(key, {
-      data,
-      createdAt: Date.now(),
-    });
+    this.cache.set(key, entry);
+    this.bytes += entry.data.length;
+  }
+
+  // Presence check that doesn't count as an access
+  has(key: string): boolean {
+    return this.cache.has(key);
+  }
+
+  delete(key: string): void {
+    const entry = this.cache.get(key);
+    if (entry) {
+      this.bytes -= entry.data.length;
+      this.cache.delete(key);
+    }
   }
 
   clear(): void {
     this.cache.clear();
+    this.bytes = 0;
   }
 
   size(): number {
     return this.cache.size;
   }
 
+  totalBytes(): number {
+    return this.bytes;
+  }
+
+  hits(): number {
+    return this.hitCount;
+  }
+
+  misses(): number {
+    return this.missCount;
+  }
+
   // Remove expired entries
   cleanup(): number {
     const now = Date.now();
-    const ttlMs = config.cacheTTL * 1000;
+    const ttlMs = getRetentionSeconds() * 1000;
     let removed = 0;
 
     for (const [key, entry] of this.cache.entries()) {
       if (now - entry.createdAt > ttlMs) {
-        this.cache.delete(key);
+        this.delete(key);
         removed++;
       }
     }
@@ -78,15 +162,24 @@ class LRUCache {
   }
 }
 
-// Initialize memory cache
-const memoryCache = new LRUCache(config.maxMemoryCacheItems);
+// Initialize memory caches
+const memoryCache = new LRUCache(() => ({
+  maxItems: config.maxMemoryCacheItems,
+  maxBytes: config.maxMemoryCacheBytes,
+  maxEntryBytes: config.maxMemoryCacheEntryBytes,
+}));
+const sourceMemoryCache = new LRUCache<SourceEntry>(() => ({
+  maxItems: Infinity,
+  maxBytes: config.maxSourceCacheSize,
+  maxEntryBytes: config.maxSourceCacheSize,
+}));
 
 // Redis client — no "connected" flag. Bun's autoReconnect + enableOfflineQueue
 // handle transient failures; try/catch on each op provides graceful degradation.
 let redisClient: RedisClient | null = null;
 
 export async function initRedisCache(): Promise<void> {
-  if (config.cacheMode !== "redis") return;
+  if (!getCacheTiers().includes("redis")) return;
 
   redisClient = new RedisClient(config.redisUrl, {
     connectionTimeout: config.redisConnectionTimeout,
@@ -122,36 +215,323 @@ function redisKey(key: string): string {
   return `${config.redisKeyPrefix}${key}`;
 }
 
+// Serialized entry layout (disk and redis): magic, 4-byte metadata length,
+// JSON metadata, then the image bytes. Entries written before metadata was
+// stored lack the magic and are treated as misses.
+const ENTRY_MAGIC = Buffer.from("PSC1");
+
+function serializeCacheEntry(entry: StoredEntry): Buffer {
+  const { data, ...metadata } = entry;
+  const meta = Buffer.from(JSON.stringify(metadata));
+  const header = Buffer.alloc(ENTRY_MAGIC.length + 4);
+  ENTRY_MAGIC.copy(header);
+  header.writeUInt32BE(meta.length, ENTRY_MAGIC.length);
+  return Buffer.concat([header, meta, data]);
+}
+
+function deserializeCacheEntry<T extends StoredEntry = CacheEntry>(
+  raw: Uint8Array,
+): T | null {
+  const buf = Buffer.from(raw.buffer, raw.byteOffset, raw.byteLength);
+  const headerLength = ENTRY_MAGIC.length + 4;
+  if (
+    buf.length < headerLength ||
+    !buf.subarray(0, ENTRY_MAGIC.length).equals(ENTRY_MAGIC)
+  ) {
+    return null;
+  }
+
+  const metaLength = buf.readUInt32BE(ENTRY_MAGIC.length);
+  if (buf.length < headerLength + metaLength) return null;
+
+  try {
+    const metadata = JSON.parse(
+      buf.subarray(headerLength, headerLength + metaLength).toString(),
+    ) as Omit<T, "data">;
+    return { ...metadata, data: buf.subarray(headerLength + metaLength) } as T;
+  } catch {
+    return null;
+  }
+}
+
+export function createCacheEntry(
+  data: Buffer,
+  format: ImageFormat,
+  dimensions: { width?: number; height?: number } = {},
+): CacheEntry {
+  return {
+    data,
+    format,
+    width: dimensions.width,
+    height: dimensions.height,
+    hash: createHash("sha256").update(data).digest("hex"),
+    createdAt: Date.now(),
+  };
+}
+
 // Redis cache operations
-async function getRedisCached(key: string): Promise<Uint8Array | null> {
+async function getRedisCached(key: string): Promise<CacheEntry | null> {
   if (!redisClient) return null;
   try {
     const data = await redisClient.getBuffer(redisKey(key));
-    return data ?? null;
+    return data ? deserializeCacheEntry<CacheEntry>(data) : null;
   } catch (error) {
     console.error("Redis get error:", error);
     return null;
   }
 }
 
-async function setRedisCache(key: string, data: Buffer): Promise<void> {
+async function setRedisCache(key: string, entry: CacheEntry): Promise<void> {
   if (!redisClient) return;
   try {
-    await redisClient.set(redisKey(key), data, "EX", config.cacheTTL);
+    await redisClient.set(
+      redisKey(key),
+      serializeCacheEntry(entry),
+      "EX",
+      getRetentionSeconds(),
+    );
   } catch (error) {
     console.error("Redis set error:", error);
   }
 }
 
-export function generateCacheKey(
-  params: Record<string, string | number | boolean | undefined>,
-): string {
+// S3-compatible object storage. Expiry goes by each object's LastModified:
+// reads check it with a HEAD before downloading, and cleanup deletes objects
+// past their retention, or a bucket lifecycle rule can expire them instead.
+let s3Client: S3Client | null = null;
+
+export function initS3Cache(): void {
+  if (!getCacheTiers().includes("s3")) return;
+
+  if (!config.s3Bucket) {
+    console.error("S3 cache requires S3_BUCKET; caching is disabled");
+    return;
+  }
+
+  s3Client = new S3Client({
+    endpoint: config.s3Endpoint || undefined,
+    bucket: config.s3Bucket,
+    region: config.s3Region,
+    accessKeyId: config.s3AccessKeyId || undefined,
+    secretAccessKey: config.s3SecretAccessKey || undefined,
+  });
+}
+
+function s3Key(key: string): string {
+  return `${config.s3Prefix}${key}`;
+}
+
+async function getS3Object<T extends StoredEntry>(
+  key: string,
+): Promise<T | null> {
+  if (!s3Client) return null;
+  try {
+    const file = s3Client.file(s3Key(key));
+    const { lastModified } = await file.stat();
+    if (Date.now() - lastModified.getTime() >= getRetentionSeconds() * 1000) {
+      return null;
+    }
+    return deserializeCacheEntry<T>(new Uint8Array(await file.arrayBuffer()));
+  } catch (error) {
+    // A missing object is an ordinary miss
+    if ((error as { code?: string }).code !== "NoSuchKey") {
+      console.error("S3 get error:", error);
+    }
+  }
+  return null;
+}
+
+async function setS3Object(key: string, entry: StoredEntry): Promise<void> {
+  if (!s3Client) return;
+  try {
+    await s3Client.write(s3Key(key), serializeCacheEntry(entry), {
+      type: "application/octet-stream",
+    });
+  } catch (error) {
+    console.error("S3 put error:", error);
+  }
+}
+
+async function deleteS3Object(key: string): Promise<void> {
+  if (!s3Client) return;
+  try {
+    await s3Client.delete(s3Key(key));
+  } catch (error) {
+    console.error("S3 delete error:", error);
+  }
+}
+
+interface S3ObjectInfo {
+  key: string;
+  lastModified?: string;
+  size?: number;
+}
+
+// Lists every object under a full key prefix, following pagination
+async function listS3Objects(prefix: string): Promise<S3ObjectInfo[]> {
+  if (!s3Client) return [];
+
+  const objects: S3ObjectInfo[] = [];
+  let continuationToken: string | undefined;
+  do {
+    const page = await s3Client.list({ prefix, continuationToken });
+    objects.push(...(page.contents ?? []));
+    continuationToken = page.isTruncated
+      ? page.nextContinuationToken
+      : undefined;
+  } while (continuationToken);
+
+  return objects;
+}
+
+// Distributed render lock: SET NX with a TTL so a crashed holder can't block
+// others for longer than the timeout
+async function acquireRenderLock(key: string): Promise<string | null> {
+  if (!redisClient) return null;
+  const token = randomUUID();
+  try {
+    const result = await redisClient.send("SET", [
+      redisKey(`lock:${key}`),
+      token,
+      "NX",
+      "PX",
+      String(config.redisRenderLockTimeout),
+    ]);
+    return result === "OK" ? token : null;
+  } catch (error) {
+    console.error("Redis lock error:", error);
+    return null;
+  }
+}
+
+// Only delete the lock if we still hold it
+const RELEASE_LOCK_SCRIPT =
+  'if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end';
+
+async function releaseRenderLock(key: string, token: string): Promise<void> {
+  if (!redisClient) return;
+  try {
+    await redisClient.send("EVAL", [
+      RELEASE_LOCK_SCRIPT,
+      "1",
+      redisKey(`lock:${key}`),
+      token,
+    ]);
+  } catch (error) {
+    console.error("Redis unlock error:", error);
+  }
+}
+
+async function isRenderLocked(key: string): Promise<boolean> {
+  if (!redisClient) return false;
+  try {
+    return await redisClient.exists(redisKey(`lock:${key}`));
+  } catch {
+    return false;
+  }
+}
+
+// Renders under the redis lock, or waits for the worker holding it to
+// publish the entry. Falls back to rendering locally once the timeout passes.
+async function renderWithRedisLock(
+  key: string,
+  render: () => Promise<CacheEntry>,
+  tags: string[],
+): Promise<CacheEntry> {
+  const deadline = Date.now() + config.redisRenderLockTimeout;
+
+  while (Date.now() < deadline) {
+    const token = await acquireRenderLock(key);
+    if (token) {
+      try {
+        const entry = await render();
+        // Store before releasing so waiters find the entry
+        await setCache(key, entry, tags);
+        return entry;
+      } finally {
+        await releaseRenderLock(key, token);
+      }
+    }
+
+    // Another worker is rendering: wait for its result or for the lock to go
+    do {
+      await Bun.sleep(RENDER_LOCK_POLL_MS);
+      const entry = await getCached(key);
+      if (entry) return entry;
+    } while (Date.now() < deadline && (await isRenderLocked(key)));
+  }
+
+  const entry = await render();
+  await setCache(key, entry, tags);
+  return entry;
+}
+
+const renders = createSingleFlight<CacheEntry>();
+
+/**
+ * Renders and stores a cache miss once. Concurrent misses for the same key
+ * share one render in this process, and with REDIS_RENDER_LOCK cluster
+ * workers wait on whichever worker holds the lock. Tags index the entry for
+ * purging (see `sourceTag` and `templateTag`).
+ */
+export function renderOnce(
+  key: string,
+  render: () => Promise<CacheEntry>,
+  tags: string[] = [],
+): Promise<CacheEntry> {
+  return renders.run(key, async () => {
+    if (
+      config.redisRenderLock &&
+      redisClient &&
+      getCacheTiers().includes("redis")
+    ) {
+      return renderWithRedisLock(key, render, tags);
+    }
+
+    const entry = await render();
+    // Store in cache (async, don't wait)
+    setCache(key, entry, tags).catch((err) =>
+      console.error("Cache write error:", err),
+    );
+    return entry;
+  });
+}
+
+// Per-process count of stale entries served while refreshing
+let staleServed = 0;
+
+/**
+ * Returns a cached entry, rendering it once on a miss. Entries past cacheTTL
+ * but within CACHE_STALE_TTL are returned right away while a background
+ * render replaces them; if that render fails (e.g. the origin is down) the
+ * stale entry keeps being served until the window closes.
+ */
+export async function getOrRender(
+  key: string,
+  render: () => Promise<CacheEntry>,
+  tags: string[] = [],
+): Promise<{ entry: CacheEntry; cached: boolean }> {
+  const cached = await getCached(key);
+  if (!cached) {
+    return { entry: await renderOnce(key, render, tags), cached: false };
+  }
+
+  if (isStale(cached)) {
+    staleServed++;
+    renderOnce(key, render, tags).catch((error) =>
+      console.error("Stale entry refresh failed:", error),
+    );
+  }
+  return { entry: cached, cached: true };
+}
+
+export function getRenderStats(): { inFlight: number; staleServed: number } {
+  return { inFlight: renders.size(), staleServed };
+}
+
+export function generateCacheKey(params: CacheKeyParams): string {
   // Filter out undefined values and sort keys for consistent hashing
-  const filtered = Object.entries(params)
-    .filter(([, v]) => v !== undefined)
-    .toSorted(([a], [b]) => a.localeCompare(b))
-    .map(([k, v]) => `${k}=${v}`)
-    .join("&");
+  const filtered = canonicalizeParams(params);
 
   return createHash("sha256").update(filtered).digest("hex");
 }
@@ -162,8 +542,95 @@ function getCachePath(key: string): string {
   return join(config.cacheDir, shard, key);
 }
 
+// Size and access order of disk entries, for LRU eviction at maxCacheSize
+const diskIndex = new DiskCacheIndex();
+// The same for the source tier, evicted at maxSourceCacheSize
+const sourceDiskIndex = new DiskCacheIndex();
+
+interface CachedFile {
+  key: string;
+  path: string;
+  size: number;
+  accessedAt: number;
+  modifiedAt: number;
+}
+
+// Lists files in the sharded layout (<dir>/<2-char shard>/<key>)
+async function scanCacheDir(dir: string): Promise<CachedFile[]> {
+  const files: CachedFile[] = [];
+
+  let shards: string[];
+  try {
+    shards = await readdir(dir);
+  } catch {
+    // Cache directory doesn't exist yet
+    return files;
+  }
+
+  for (const shard of shards) {
+    if (shard.length !== 2) continue;
+    const shardDir = join(dir, shard);
+    const names = await readdir(shardDir).catch(() => [] as string[]);
+
+    for (const name of names) {
+      const path = join(shardDir, name);
+      const info = await statFile(path).catch(() => null);
+      if (info?.isFile()) {
+        files.push({
+          key: name,
+          path,
+          size: info.size,
+          accessedAt: info.atimeMs,
+          modifiedAt: info.mtimeMs,
+        });
+      }
+    }
+  }
+
+  return files;
+}
+
+async function evictDiskEntries(): Promise<number> {
+  if (config.maxCacheSize === 0) return 0; // Unlimited
+
+  const evicted = diskIndex.evict(config.maxCacheSize);
+  await Promise.all(
+    evicted.map((key) => unlink(getCachePath(key)).catch(() => {})),
+  );
+  return evicted.length;
+}
+
+async function evictDiskSources(): Promise<number> {
+  const evicted = sourceDiskIndex.evict(config.maxSourceCacheSize);
+  await Promise.all(
+    evicted.map((key) => unlink(getSourcePath(key)).catch(() => {})),
+  );
+  return evicted.length;
+}
+
+/**
+ * Creates the cache directory and rebuilds the disk indexes from the files
+ * already there, evicting down to maxCacheSize and maxSourceCacheSize if
+ * they shrank since last run.
+ */
+export async function initDiskCache(): Promise<void> {
+  if (!getCacheTiers().includes("disk")) return;
+
+  await mkdir(config.cacheDir, { recursive: true });
+  diskIndex.rebuild(await scanCacheDir(config.cacheDir));
+  sourceDiskIndex.rebuild(
+    await scanCacheDir(join(config.cacheDir, SOURCE_CACHE_DIR)),
+  );
+  const evicted = (await evictDiskEntries()) + (await evictDiskSources());
+
+  console.log(
+    `Disk cache: ${diskIndex.size()} entries, ${diskIndex.totalBytes()} bytes` +
+      (evicted > 0 ? ` (evicted ${evicted} over budget)` : ""),
+  );
+}
+
 // Disk cache operations
-async function getDiskCached(key: string): Promise<Buffer | null> {
+async function getDiskCached(key: string): Promise<CacheEntry | null> {
   const path = getCachePath(key);
   const file = Bun.file(path);
 
@@ -172,12 +639,20 @@ async function getDiskCached(key: string): Promise<Buffer | null> {
       const stat = await file.stat();
       const age = Date.now() - stat.mtime.getTime();
 
-      if (age < config.cacheTTL * 1000) {
-        return Buffer.from(await file.arrayBuffer());
+      if (age < getRetentionSeconds() * 1000) {
+        const entry = deserializeCacheEntry<CacheEntry>(
+          new Uint8Array(await file.arrayBuffer()),
+        );
+
+        // Record the access; atime keeps LRU order across restarts
+        diskIndex.record(key, stat.size);
+        utimes(path, new Date(), stat.mtime).catch(() => {});
+        return entry;
       }
 
       // Expired - delete in background
-      Bun.$`rm -f ${path}`.quiet().catch(() => {});
+      diskIndex.remove(key);
+      unlink(path).catch(() => {});
     } catch {
       // File might have been deleted between exists check and read
       return null;
@@ -187,72 +662,564 @@ async function getDiskCached(key: string): Promise<Buffer | null> {
   return null;
 }
 
-async function setDiskCache(key: string, data: Buffer): Promise<void> {
+async function setDiskCache(key: string, entry: CacheEntry): Promise<void> {
   const path = getCachePath(key);
   const dir = join(config.cacheDir, key.substring(0, 2));
 
   try {
     // Ensure directory exists
-    await Bun.$`mkdir -p ${dir}`.quiet();
-    await Bun.write(path, data);
+    await mkdir(dir, { recursive: true });
+    const bytes = await Bun.write(path, serializeCacheEntry(entry));
+
+    diskIndex.record(key, bytes);
+    if (diskIndex.totalBytes() > config.maxCacheSize) {
+      await evictDiskEntries();
+    }
   } catch (error) {
     // Cache write failure is non-fatal
     console.error("Cache write failed:", error);
   }
 }
 
-// Memory cache operations
-function getMemoryCached(key: string): Buffer | null {
-  return memoryCache.get(key);
+// Source image tier: raw upstream bytes keyed by URL, stored in the same
+// backend as outputs under their own namespace and size budget
+function getSourceKey(url: string): string {
+  return createHash("sha256").update(`source:${url}`).digest("hex");
 }
 
-function setMemoryCache(key: string, data: Buffer): void {
-  memoryCache.set(key, data);
+function getSourcePath(key: string): string {
+  return join(config.cacheDir, SOURCE_CACHE_DIR, key.substring(0, 2), key);
 }
 
-// Unified cache interface
-export async function getCached(key: string): Promise<Uint8Array | null> {
-  switch (config.cacheMode) {
-    case "disk":
-      return getDiskCached(key);
-    case "memory":
-      return getMemoryCached(key);
-    case "hybrid": {
-      // Try memory first (L1), then disk (L2)
-      const memoryHit = getMemoryCached(key);
-      if (memoryHit) return memoryHit;
-
-      const diskHit = await getDiskCached(key);
-      if (diskHit) {
-        // Promote to memory cache
-        setMemoryCache(key, diskHit);
+async function getDiskSource(key: string): Promise<SourceEntry | null> {
+  const path = getSourcePath(key);
+  const file = Bun.file(path);
+  try {
+    if (!(await file.exists())) return null;
+    const stat = await file.stat();
+    const entry = deserializeCacheEntry<SourceEntry>(
+      new Uint8Array(await file.arrayBuffer()),
+    );
+    if (entry && Date.now() - entry.createdAt < getRetentionSeconds() * 1000) {
+      // Record the access; atime keeps LRU order across restarts
+      sourceDiskIndex.record(key, stat.size);
+      utimes(path, new Date(), stat.mtime).catch(() => {});
+      return entry;
+    }
+  } catch {
+    // File might have been deleted between exists check and read
+  }
+  return null;
+}
+
+async function setDiskSource(key: string, entry: SourceEntry): Promise<void> {
+  const path = getSourcePath(key);
+  try {
+    await mkdir(dirname(path), { recursive: true });
+    const bytes = await Bun.write(path, serializeCacheEntry(entry));
+
+    sourceDiskIndex.record(key, bytes);
+    if (sourceDiskIndex.totalBytes() > config.maxSourceCacheSize) {
+      await evictDiskSources();
+    }
+  } catch (error) {
+    console.error("Source cache write failed:", error);
+  }
+}
+
+async function getRedisSource(key: string): Promise<SourceEntry | null> {
+  if (!redisClient) return null;
+  try {
+    const data = await redisClient.getBuffer(redisKey(`source:${key}`));
+    return data ? deserializeCacheEntry<SourceEntry>(data) : null;
+  } catch (error) {
+    console.error("Redis get error:", error);
+    return null;
+  }
+}
+
+async function setRedisSource(key: string, entry: SourceEntry): Promise<void> {
+  if (!redisClient) return;
+  try {
+    await redisClient.set(
+      redisKey(`source:${key}`),
+      serializeCacheEntry(entry),
+      "EX",
+      getRetentionSeconds(),
+    );
+  } catch (error) {
+    console.error("Redis set error:", error);
+  }
+}
+
+// Secondary index from a tag (a source URL or OG template) to the cache
+// keys rendered from it, so the admin API can purge them together. Each
+// backend keeps its own copy next to its entries.
+export function sourceTag(url: string): string {
+  return `source:${url}`;
+}
+
+export function templateTag(name: string): string {
+  return `template:${name}`;
+}
+
+function getTagId(tag: string): string {
+  return createHash("sha256").update(`tag:${tag}`).digest("hex");
+}
+
+interface TagIndex {
+  add(tag: string, key: string): Promise<void>;
+  members(tag: string): Promise<string[]>;
+  remove(tag: string): Promise<void>;
+}
+
+// Memory: tag -> keys, pruned of evicted keys during cleanup
+const memoryTags = new Map<string, Set<string>>();
+
+const memoryTagIndex: TagIndex = {
+  add: async (tag, key) => {
+    const keys = memoryTags.get(tag) ?? new Set<string>();
+    keys.add(key);
+    memoryTags.set(tag, keys);
+  },
+  members: async (tag) => [...(memoryTags.get(tag) ?? [])],
+  remove: async (tag) => {
+    memoryTags.delete(tag);
+  },
+};
+
+function pruneMemoryTags(): void {
+  for (const [tag, keys] of memoryTags) {
+    for (const key of keys) {
+      if (!memoryCache.has(key)) keys.delete(key);
+    }
+    if (keys.size === 0) memoryTags.delete(tag);
+  }
+}
+
+function flushMemoryCache(): Promise<void> {
+  memoryCache.clear();
+  sourceMemoryCache.clear();
+  memoryTags.clear();
+  return Promise.resolve();
+}
+
+// Disk: one file of newline-separated keys per tag, expired with the entries
+function getTagPath(tag: string): string {
+  const id = getTagId(tag);
+  return join(config.cacheDir, TAG_INDEX_DIR, id.substring(0, 2), id);
+}
+
+async function readTagFile(path: string): Promise<string[]> {
+  const contents = await readFile(path, "utf-8").catch(() => "");
+  return [...new Set(contents.split("\n").filter(Boolean))];
+}
+
+const diskTagIndex: TagIndex = {
+  add: async (tag, key) => {
+    const path = getTagPath(tag);
+    try {
+      // Re-renders of a member only keep the file from expiring, so a hot
+      // tag doesn't grow by a line per refresh
+      if ((await readTagFile(path)).includes(key)) {
+        const now = new Date();
+        await utimes(path, now, now);
+        return;
       }
-      return diskHit;
+      await mkdir(dirname(path), { recursive: true });
+      // Appends are atomic for short lines, so workers can share a file
+      await appendFile(path, `${key}\n`);
+    } catch (error) {
+      console.error("Cache tag write failed:", error);
+    }
+  },
+  members: (tag) => readTagFile(getTagPath(tag)),
+  remove: async (tag) => {
+    await unlink(getTagPath(tag)).catch(() => {});
+  },
+};
+
+async function deleteDiskCached(key: string): Promise<void> {
+  diskIndex.remove(key);
+  await unlink(getCachePath(key)).catch(() => {});
+}
+
+// Removes shards, sources and tags but leaves the directory itself, which
+// may be a mounted volume
+async function flushDiskCache(): Promise<void> {
+  const names = await readdir(config.cacheDir).catch(() => [] as string[]);
+  await Promise.all(
+    names
+      .filter(
+        (name) =>
+          name.length === 2 ||
+          name === SOURCE_CACHE_DIR ||
+          name === TAG_INDEX_DIR,
+      )
+      .map((name) =>
+        rm(join(config.cacheDir, name), { recursive: true, force: true }),
+      ),
+  );
+  diskIndex.rebuild([]);
+  sourceDiskIndex.rebuild([]);
+}
+
+// Redis: a set per tag under redisKeyPrefix, expiring with its entries
+function redisTagKey(tag: string): string {
+  return redisKey(`tag:${getTagId(tag)}`);
+}
+
+const redisTagIndex: TagIndex = {
+  add: async (tag, key) => {
+    if (!redisClient) return;
+    try {
+      await redisClient.sadd(redisTagKey(tag), key);
+      await redisClient.expire(redisTagKey(tag), getRetentionSeconds());
+    } catch (error) {
+      console.error("Redis tag error:", error);
+    }
+  },
+  members: async (tag) => {
+    if (!redisClient) return [];
+    try {
+      return await redisClient.smembers(redisTagKey(tag));
+    } catch (error) {
+      console.error("Redis tag error:", error);
+      return [];
+    }
+  },
+  remove: async (tag) => {
+    await redisDelete(redisTagKey(tag));
+  },
+};
+
+async function redisDelete(...keys: string[]): Promise<void> {
+  if (!redisClient || keys.length === 0) return;
+  try {
+    await redisClient.del(...keys);
+  } catch (error) {
+    console.error("Redis delete error:", error);
+  }
+}
+
+// Deletes every key under redisKeyPrefix, a page at a time
+async function flushRedisCache(): Promise<void> {
+  if (!redisClient) return;
+  let cursor = "0";
+  do {
+    const [next, keys] = await redisClient.scan(
+      cursor,
+      "MATCH",
+      `${config.redisKeyPrefix}*`,
+      "COUNT",
+      500,
+    );
+    await redisDelete(...keys);
+    cursor = next;
+  } while (cursor !== "0");
+}
+
+// S3: an empty marker object per tagged key, so tagging never rewrites a
+// shared object
+function s3TagPrefix(tag: string): string {
+  return s3Key(`${TAG_INDEX_DIR}/${getTagId(tag)}/`);
+}
+
+const s3TagIndex: TagIndex = {
+  add: async (tag, key) => {
+    if (!s3Client) return;
+    try {
+      await s3Client.write(`${s3TagPrefix(tag)}${key}`, "");
+    } catch (error) {
+      console.error("S3 tag error:", error);
+    }
+  },
+  members: async (tag) => {
+    const prefix = s3TagPrefix(tag);
+    try {
+      return (await listS3Objects(prefix)).map((object) =>
+        object.key.slice(prefix.length),
+      );
+    } catch (error) {
+      console.error("S3 tag error:", error);
+      return [];
+    }
+  },
+  remove: async (tag) => {
+    try {
+      for (const object of await listS3Objects(s3TagPrefix(tag))) {
+        await s3Client?.delete(object.key);
+      }
+    } catch (error) {
+      console.error("S3 tag error:", error);
+    }
+  },
+};
+
+async function flushS3Cache(): Promise<void> {
+  for (const object of await listS3Objects(config.s3Prefix)) {
+    await s3Client?.delete(object.key);
+  }
+}
+
+// Per-process memory tier usage; misses include hybrid reads served from disk
+function getMemoryStats(): {
+  items: number;
+  bytes: number;
+  hits: number;
+  misses: number;
+} {
+  return {
+    items: memoryCache.size(),
+    bytes: memoryCache.totalBytes(),
+    hits: memoryCache.hits(),
+    misses: memoryCache.misses(),
+  };
+}
+
+// A cache backend stores outputs, sources and the tag index in separate
+// namespaces; cleanup, flush and stats cover all of them. Adding a store
+// means implementing this interface and registering it in `backends`.
+interface CacheStore<T extends StoredEntry> {
+  get(key: string): Promise<T | null>;
+  set(key: string, entry: T): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+interface CacheBackend {
+  outputs: CacheStore<CacheEntry>;
+  sources: CacheStore<SourceEntry>;
+  tags: TagIndex;
+  flush(): Promise<void>;
+  init?(): Promise<void>;
+  close?(): Promise<void>;
+  cleanup?(): Promise<number>;
+  stats?(): Partial<CacheStats>;
+}
+
+function memoryStore<T extends StoredEntry>(cache: LRUCache<T>): CacheStore<T> {
+  return {
+    get: async (key) => cache.get(key),
+    set: async (key, entry) => cache.set(key, entry),
+    delete: async (key) => cache.delete(key),
+  };
+}
+
+const backends: Record<CacheTier, CacheBackend> = {
+  memory: {
+    outputs: memoryStore(memoryCache),
+    sources: memoryStore(sourceMemoryCache),
+    tags: memoryTagIndex,
+    flush: flushMemoryCache,
+    cleanup: async () => {
+      const removed = memoryCache.cleanup() + sourceMemoryCache.cleanup();
+      pruneMemoryTags();
+      return removed;
+    },
+    stats: getMemoryStats,
+  },
+  disk: {
+    outputs: {
+      get: getDiskCached,
+      set: setDiskCache,
+      delete: deleteDiskCached,
+    },
+    sources: {
+      get: getDiskSource,
+      set: setDiskSource,
+      delete: async (key) => {
+        sourceDiskIndex.remove(key);
+        await unlink(getSourcePath(key)).catch(() => {});
+      },
+    },
+    tags: diskTagIndex,
+    flush: flushDiskCache,
+    init: initDiskCache,
+    cleanup: async () =>
+      (await cleanupDiskCache()) +
+      (await cleanupSourceDiskCache()) +
+      (await cleanupTagDiskCache()),
+    stats: () => ({
+      directory: config.cacheDir,
+      diskItems: diskIndex.size(),
+      diskBytes: diskIndex.totalBytes(),
+    }),
+  },
+  redis: {
+    outputs: {
+      get: getRedisCached,
+      set: setRedisCache,
+      delete: (key) => redisDelete(redisKey(key)),
+    },
+    sources: {
+      get: getRedisSource,
+      set: setRedisSource,
+      delete: (key) => redisDelete(redisKey(`source:${key}`)),
+    },
+    tags: redisTagIndex,
+    flush: flushRedisCache,
+    init: initRedisCache,
+    close: disconnectRedisCache,
+    stats: () => ({
+      connected: redisClient?.connected ?? false,
+      url: maskRedisUrl(config.redisUrl),
+    }),
+  },
+  s3: {
+    outputs: {
+      get: (key) => getS3Object<CacheEntry>(key),
+      set: setS3Object,
+      delete: deleteS3Object,
+    },
+    sources: {
+      get: (key) => getS3Object<SourceEntry>(`${SOURCE_CACHE_DIR}/${key}`),
+      set: (key, entry) => setS3Object(`${SOURCE_CACHE_DIR}/${key}`, entry),
+      delete: (key) => deleteS3Object(`${SOURCE_CACHE_DIR}/${key}`),
+    },
+    tags: s3TagIndex,
+    flush: flushS3Cache,
+    init: async () => initS3Cache(),
+    cleanup: cleanupS3Cache,
+    stats: () => ({
+      bucket: config.s3Bucket,
+      endpoint: config.s3Endpoint || undefined,
+    }),
+  },
+};
+
+// Tiers each CACHE_MODE stands for when CACHE_TIERS is unset
+const MODE_TIERS: Record<CacheMode, CacheTier[]> = {
+  disk: ["disk"],
+  memory: ["memory"],
+  hybrid: ["memory", "disk"],
+  redis: ["redis"],
+  s3: ["s3"],
+  none: [],
+};
+
+// Active tiers, fastest first
+export function getCacheTiers(): CacheTier[] {
+  return config.cacheTiers.length > 0
+    ? config.cacheTiers
+    : MODE_TIERS[config.cacheMode];
+}
+
+export async function initCache(): Promise<void> {
+  for (const tier of getCacheTiers()) {
+    await backends[tier].init?.();
+  }
+}
+
+export async function closeCache(): Promise<void> {
+  for (const tier of getCacheTiers()) {
+    await backends[tier].close?.();
+  }
+}
+
+// Reads tiers in order and copies a hit into every faster tier. A stale hit
+// keeps looking in slower tiers, where another worker may have refreshed it.
+async function readThrough<T extends StoredEntry>(
+  select: (backend: CacheBackend) => CacheStore<T>,
+  key: string,
+): Promise<T | null> {
+  const stores = getCacheTiers().map((tier) => select(backends[tier]));
+  const promote = async (entry: T, index: number): Promise<T> => {
+    await Promise.all(
+      stores.slice(0, index).map((faster) => faster.set(key, entry)),
+    );
+    return entry;
+  };
+
+  let stale: { entry: T; index: number } | null = null;
+  for (const [index, store] of stores.entries()) {
+    const entry = await store.get(key);
+    if (!entry) continue;
+    if (!isStale(entry)) return promote(entry, index);
+    stale ??= { entry, index };
+  }
+
+  return stale ? promote(stale.entry, stale.index) : null;
+}
+
+// Writes go through to every tier; each backend handles its own failures
+async function writeThrough<T extends StoredEntry>(
+  select: (backend: CacheBackend) => CacheStore<T>,
+  key: string,
+  entry: T,
+): Promise<void> {
+  await Promise.all(
+    getCacheTiers().map((tier) => select(backends[tier]).set(key, entry)),
+  );
+}
+
+// Unified cache interface
+export function getCached(key: string): Promise<CacheEntry | null> {
+  return readThrough((backend) => backend.outputs, key);
+}
+
+export async function setCache(
+  key: string,
+  entry: CacheEntry,
+  tags: string[] = [],
+): Promise<void> {
+  await writeThrough((backend) => backend.outputs, key, entry);
+  await Promise.all(
+    getCacheTiers().flatMap((tier) =>
+      tags.map((tag) => backends[tier].tags.add(tag, key)),
+    ),
+  );
+}
+
+export function getCachedSource(url: string): Promise<SourceEntry | null> {
+  return readThrough((backend) => backend.sources, getSourceKey(url));
+}
+
+export function setCachedSource(
+  url: string,
+  entry: SourceEntry,
+): Promise<void> {
+  return writeThrough((backend) => backend.sources, getSourceKey(url), entry);
+}
+
+// Removes one output from every tier
+export async function purgeCacheKey(key: string): Promise<void> {
+  await Promise.all(
+    getCacheTiers().map((tier) => backends[tier].outputs.delete(key)),
+  );
+}
+
+/**
+ * Removes every output indexed under a tag from every tier, then the tag
+ * itself. Returns the number of cache keys purged.
+ */
+export async function purgeTag(tag: string): Promise<number> {
+  const tiers = getCacheTiers();
+  const keys = new Set<string>();
+  for (const tier of tiers) {
+    for (const key of await backends[tier].tags.members(tag)) {
+      keys.add(key);
     }
-    case "redis":
-      return getRedisCached(key);
-    case "none":
-      return null;
-    default:
-      return null;
   }
+
+  await Promise.all([...keys].map((key) => purgeCacheKey(key)));
+  await Promise.all(tiers.map((tier) => backends[tier].tags.remove(tag)));
+  return keys.size;
 }
 
-export async function setCache(key: string, data: Buffer): Promise<void> {
-  switch (config.cacheMode) {
-    case "disk":
-      return setDiskCache(key, data);
-    case "memory":
-      setMemoryCache(key, data);
-      return;
-    case "hybrid":
-      // Write to both memory (L1) and disk (L2)
-      setMemoryCache(key, data);
-      return setDiskCache(key, data);
-    case "redis":
-      return setRedisCache(key, data);
-    case "none":
-      return;
+// Purges a source's variants and its cached bytes, so the next request
+// fetches it from the origin again
+export async function purgeSource(url: string): Promise<number> {
+  const purged = await purgeTag(sourceTag(url));
+  const key = getSourceKey(url);
+  await Promise.all(
+    getCacheTiers().map((tier) => backends[tier].sources.delete(key)),
+  );
+  return purged;
+}
+
+export async function flushCache(): Promise<void> {
+  for (const tier of getCacheTiers()) {
+    await backends[tier].flush();
   }
 }
 
@@ -263,64 +1230,170 @@ const MIME_TYPES: Record<string, string> = {
   jpg: "image/jpeg",
   jpeg: "image/jpeg",
   gif: "image/gif",
+  tiff: "image/tiff",
+  heic: "image/heic",
+  jxl: "image/jxl",
+  svg: "image/svg+xml",
 };
 
+// SVG output may only style itself and embed inline rasters
+const SVG_CSP = "default-src 'none'; style-src 'unsafe-inline'; img-src data:";
+
 export function getCacheHeaders(format: ImageFormat): Record<string, string> {
+  // Let CDNs and browsers honour the same stale window as the server
+  const stale =
+    config.cacheStaleTTL > 0
+      ? `, stale-while-revalidate=${config.cacheStaleTTL}, stale-if-error=${config.cacheStaleTTL}`
+      : "";
   return {
     "Content-Type": MIME_TYPES[format] || "image/jpeg",
-    "Cache-Control": `public, max-age=${config.browserCacheTTL}, immutable`,
-    Vary: "Accept",
+    "Cache-Control": `public, max-age=${config.browserCacheTTL}, immutable${stale}`,
+    Vary: config.clientHints
+      ? ["Accept", ...CLIENT_HINTS].join(", ")
+      : "Accept",
+    ...(config.clientHints ? { "Accept-CH": CLIENT_HINTS.join(", ") } : {}),
+    // Defence in depth should an SVG be opened directly as a document
+    ...(format === "svg" ? { "Content-Security-Policy": SVG_CSP } : {}),
+  };
+}
+
+// Strong validator: cache key identifies the variant, content hash the bytes
+export function generateETag(key: string, entry: CacheEntry): string {
+  return `"${key.substring(0, 16)}-${entry.hash.substring(0, 16)}"`;
+}
+
+export function getEntryHeaders(
+  key: string,
+  entry: CacheEntry,
+): Record<string, string> {
+  return {
+    ...getCacheHeaders(entry.format),
+    ETag: generateETag(key, entry),
+    "Last-Modified": new Date(entry.createdAt).toUTCString(),
   };
 }
 
 // Background cache cleanup - runs periodically to remove expired entries
 let cleanupInterval: ReturnType<typeof setInterval> | null = null;
 
+// Deletes expired files, returning the ones still live
+async function removeExpiredFiles(
+  files: CachedFile[],
+): Promise<{ live: CachedFile[]; deleted: number }> {
+  const maxAge = getRetentionSeconds() * 1000;
+  const now = Date.now();
+  const live: CachedFile[] = [];
+  let deleted = 0;
+
+  for (const file of files) {
+    if (now - file.modifiedAt > maxAge) {
+      await unlink(file.path).catch(() => {});
+      deleted++;
+    } else {
+      live.push(file);
+    }
+  }
+
+  return { live, deleted };
+}
+
 async function cleanupDiskCache(): Promise<number> {
-  const maxAgeMinutes = Math.floor(config.cacheTTL / 60);
+  const { live, deleted } = await removeExpiredFiles(
+    await scanCacheDir(config.cacheDir),
+  );
+
+  // Resync the index with disk: other cluster workers write here too
+  diskIndex.rebuild(live);
+  return deleted + (await evictDiskEntries());
+}
+
+// Expires tag files, then compacts the rest down to keys still on disk.
+// Runs after cleanupDiskCache, which resyncs diskIndex with the directory.
+async function cleanupTagDiskCache(): Promise<number> {
+  const { live, deleted } = await removeExpiredFiles(
+    await scanCacheDir(join(config.cacheDir, TAG_INDEX_DIR)),
+  );
+
+  let compacted = 0;
+  for (const file of live) {
+    const keys = await readTagFile(file.path);
+    const kept = keys.filter((key) => diskIndex.has(key));
+    if (kept.length === keys.length) continue;
+
+    if (kept.length === 0) {
+      await unlink(file.path).catch(() => {});
+      compacted++;
+      continue;
+    }
+    // Rename over the original so readers never see a partial file
+    const temp = `${file.path}.${randomUUID()}.tmp`;
+    await writeFile(temp, kept.map((key) => `${key}\n`).join(""));
+    await rename(temp, file.path).catch(() => unlink(temp).catch(() => {}));
+  }
+
+  return deleted + compacted;
+}
+
+// Expires source files and resyncs the source index, then evicts the least
+// recently used until the source tier fits its budget
+async function cleanupSourceDiskCache(): Promise<number> {
+  const { live, deleted } = await removeExpiredFiles(
+    await scanCacheDir(join(config.cacheDir, SOURCE_CACHE_DIR)),
+  );
+
+  sourceDiskIndex.rebuild(live);
+  return deleted + (await evictDiskSources());
+}
+
+// Deletes objects under the prefix (outputs, sources and tags) past their
+// retention, then the least recently fetched sources over their budget
+async function cleanupS3Cache(): Promise<number> {
+  if (!s3Client) return 0;
+
+  const cutoff = Date.now() - getRetentionSeconds() * 1000;
+  const sourcePrefix = s3Key(`${SOURCE_CACHE_DIR}/`);
+  const sources: S3ObjectInfo[] = [];
   let deleted = 0;
 
   try {
-    const result =
-      await Bun.$`find ${config.cacheDir} -type f -mmin +${maxAgeMinutes} 2>/dev/null`.text();
-    const oldFiles = result.split("\n").filter(Boolean);
-
-    for (const file of oldFiles) {
-      try {
-        await Bun.$`rm -f ${file}`.quiet();
+    for (const object of await listS3Objects(config.s3Prefix)) {
+      if (object.lastModified && Date.parse(object.lastModified) < cutoff) {
+        await s3Client.delete(object.key);
         deleted++;
-      } catch {
-        // Ignore individual file deletion errors
+      } else if (object.key.startsWith(sourcePrefix)) {
+        sources.push(object);
       }
     }
-  } catch {
-    // Find command might fail if cache dir doesn't exist yet
+
+    let total = sources.reduce((sum, object) => sum + (object.size ?? 0), 0);
+    sources.sort(
+      (a, b) =>
+        Date.parse(a.lastModified ?? "0") - Date.parse(b.lastModified ?? "0"),
+    );
+    for (const object of sources) {
+      if (total <= config.maxSourceCacheSize) break;
+      await s3Client.delete(object.key);
+      total -= object.size ?? 0;
+      deleted++;
+    }
+  } catch (error) {
+    console.error("S3 cleanup error:", error);
   }
 
   return deleted;
 }
 
 export async function cleanupCache(): Promise<number> {
-  switch (config.cacheMode) {
-    case "none":
-    case "redis":
-      return 0;
-    case "memory":
-      return memoryCache.cleanup();
-    case "disk":
-      return cleanupDiskCache();
-    case "hybrid": {
-      // Clean both caches
-      const memoryDeleted = memoryCache.cleanup();
-      const diskDeleted = await cleanupDiskCache();
-      return memoryDeleted + diskDeleted;
-    }
+  let deleted = 0;
+  for (const tier of getCacheTiers()) {
+    deleted += (await backends[tier].cleanup?.()) ?? 0;
   }
+  return deleted;
 }
 
 export function startCacheCleanup(intervalMs: number = 3600000): void {
   if (cleanupInterval) return;
-  if (config.cacheMode === "none" || config.cacheMode === "redis") return;
+  if (!getCacheTiers().some((tier) => backends[tier].cleanup)) return;
 
   cleanupInterval = setInterval(async () => {
     const deleted = await cleanupCache();
@@ -353,32 +1426,27 @@ export function maskRedisUrl(url: string): string {
   }
 }
 
-// Export for health check
-export function getCacheStats(): {
+export interface CacheStats {
   mode: CacheMode;
+  tiers: CacheTier[];
   items?: number;
+  bytes?: number;
+  hits?: number;
+  misses?: number;
   directory?: string;
+  diskItems?: number;
+  diskBytes?: number;
   connected?: boolean;
   url?: string;
-} {
-  switch (config.cacheMode) {
-    case "memory":
-      return { mode: "memory", items: memoryCache.size() };
-    case "disk":
-      return { mode: "disk", directory: config.cacheDir };
-    case "hybrid":
-      return {
-        mode: "hybrid",
-        items: memoryCache.size(),
-        directory: config.cacheDir,
-      };
-    case "redis":
-      return {
-        mode: "redis",
-        connected: redisClient?.connected ?? false,
-        url: maskRedisUrl(config.redisUrl),
-      };
-    case "none":
-      return { mode: "none" };
+  bucket?: string;
+  endpoint?: string;
+}
+
+// Export for health check
+export function getCacheStats(): CacheStats {
+  const stats: CacheStats = { mode: config.cacheMode, tiers: getCacheTiers() };
+  for (const tier of stats.tiers) {
+    Object.assign(stats, backends[tier].stats?.());
   }
+  return stats;
 }
@@ -0,0 +1,65 @@
+interface IndexedFile {
+  size: number;
+  accessedAt: number;
+}
+
+/**
+ * In-memory index of the disk cache, ordered from least to most recently
+ * accessed. Tracks total bytes so the disk backend can evict down to
+ * maxCacheSize without walking the directory tree on every write.
+ */
+export class DiskCacheIndex {
+  private files = new Map<string, IndexedFile>();
+  private bytes = 0;
+
+  // Replace the index, e.g. after scanning the cache directory at startup
+  rebuild(entries: { key: string; size: number; accessedAt: number }[]): void {
+    this.files.clear();
+    this.bytes = 0;
+
+    const sorted = entries.toSorted((a, b) => a.accessedAt - b.accessedAt);
+    for (const { key, size, accessedAt } of sorted) {
+      this.files.set(key, { size, accessedAt });
+      this.bytes += size;
+    }
+  }
+
+  record(key: string, size: number, accessedAt: number = Date.now()): void {
+    this.remove(key);
+    this.files.set(key, { size, accessedAt });
+    this.bytes += size;
+  }
+
+  remove(key: string): void {
+    const file = this.files.get(key);
+    if (file) {
+      this.bytes -= file.size;
+      this.files.delete(key);
+    }
+  }
+
+  // Removes and returns least recently used keys until the total fits
+  evict(maxBytes: number): string[] {
+    const evicted: string[] = [];
+
+    for (const key of this.files.keys()) {
+      if (this.bytes <= maxBytes) break;
+      this.remove(key);
+      evicted.push(key);
+    }
+
+    return evicted;
+  }
+
+  has(key: string): boolean {
+    return this.files.has(key);
+  }
+
+  size(): number {
+    return this.files.size;
+  }
+
+  totalBytes(): number {
+    return this.bytes;
+  }
+}
@@ -0,0 +1,61 @@
+import sharp from "sharp";
+import type { ImageFormat } from "../types";
+import { ValidationError } from "../utils/errors";
+import { applyOutputFormat } from "./transforms/output";
+
+// Every output format PixelServe knows how to request from libvips
+const OUTPUT_FORMATS: ImageFormat[] = [
+  "webp",
+  "avif",
+  "png",
+  "jpg",
+  "jpeg",
+  "gif",
+  "tiff",
+  "heic",
+  "jxl",
+  "svg",
+];
+
+let probe: Promise<ImageFormat[]> | null = null;
+
+async function canEncode(format: ImageFormat): Promise<boolean> {
+  try {
+    const pipeline = sharp({
+      create: { width: 8, height: 8, channels: 3, background: "#000" },
+    });
+    await applyOutputFormat(pipeline, format, 50).toBuffer();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the output formats the installed libvips can encode. Each format
+ * is probed once by encoding a tiny image, since a build can list a saver
+ * (HEIF) yet lack the codec behind it (HEVC). Runs at startup; later calls
+ * reuse the result.
+ */
+export function getOutputFormats(): Promise<ImageFormat[]> {
+  probe ??= (async () => {
+    const supported: ImageFormat[] = [];
+    for (const format of OUTPUT_FORMATS) {
+      // SVG is never encoded, only passed through from SVG sources
+      if (format === "svg" || (await canEncode(format))) {
+        supported.push(format);
+      }
+    }
+    return supported;
+  })();
+  return probe;
+}
+
+// Rejects requests for formats this build can't encode
+export async function assertOutputFormat(format: ImageFormat): Promise<void> {
+  if (!(await getOutputFormats()).includes(format)) {
+    throw new ValidationError(
+      `Output format "${format}" is not supported by this server`,
+    );
+  }
+}
@@ -1,21 +1,101 @@
 import { config } from "../config";
 import { MAX_REDIRECTS } from "../constants";
 import { FetchError, TimeoutError, ValidationError } from "../utils/errors";
+import { acceptSourceImage } from "../utils/image-type";
+import { readLimitedStream } from "../utils/stream";
 import { validateUrl } from "../utils/url-validator";
 
+// Per-process fetch counters, exposed via /health
+const fetchStats = {
+  requests: 0,
+  succeeded: 0,
+  failed: 0,
+  oversized: 0,
+  timedOut: 0,
+  notModified: 0,
+  bytes: 0,
+};
+
+export function getFetchStats(): typeof fetchStats {
+  return { ...fetchStats };
+}
+
+function sizeLimitError(): ValidationError {
+  return new ValidationError(
+    `Image exceeds maximum size limit (${Math.round(config.maxImageSize / 1024 / 1024)}MB)`,
+  );
+}
+
+// Rejects once the shared deadline passes, for steps fetch() can't abort (DNS)
+function withDeadline<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+}
+
+// Validators from a previously fetched copy, sent as a conditional request
+export interface SourceValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface FetchedSource {
+  data: Buffer | null; // null when the origin answered 304 Not Modified
+  etag?: string;
+  lastModified?: string;
+}
+
 export async function fetchImage(urlString: string): Promise<Buffer> {
-  let currentUrl = await validateUrl(urlString);
+  const { data } = await fetchSource(urlString);
+  return data as Buffer;
+}
 
+/**
+ * Fetches a source image with SSRF checks, size limits and format sniffing.
+ * With validators, the request is conditional and a 304 returns `data: null`.
+ */
+export async function fetchSource(
+  urlString: string,
+  validators: SourceValidators = {},
+): Promise<FetchedSource> {
+  fetchStats.requests++;
+
+  const conditionalHeaders: Record<string, string> = {};
+  if (validators.etag) {
+    conditionalHeaders["If-None-Match"] = validators.etag;
+  }
+  if (validators.lastModified) {
+    conditionalHeaders["If-Modified-Since"] = validators.lastModified;
+  }
+
+  // One budget for the whole fetch: URL validation, every redirect hop and
+  // the body download
   const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), config.requestTimeout);
+  const timeout = setTimeout(
+    () => controller.abort(new TimeoutError("Image fetch timed out")),
+    config.requestTimeout,
+  );
 
   try {
+    let currentUrl = await withDeadline(
+      validateUrl(urlString),
+      controller.signal,
+    );
+
     for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
       const response = await fetch(currentUrl.toString(), {
         signal: controller.signal,
         headers: {
           "User-Agent": "PixelServe/1.0",
           Accept: "image/*",
+          ...conditionalHeaders,
         },
         redirect: "manual",
       });
@@ -28,50 +108,75 @@ export async function fetchImage(urlString: string): Promise<Buffer> {
         }
         // Resolve relative redirects and re-validate against SSRF
         const resolvedUrl = new URL(location, currentUrl.toString());
-        currentUrl = await validateUrl(resolvedUrl.toString());
+        currentUrl = await withDeadline(
+          validateUrl(resolvedUrl.toString()),
+          controller.signal,
+        );
         continue;
       }
 
+      const etag = response.headers.get("ETag") ?? undefined;
+      const lastModified = response.headers.get("Last-Modified") ?? undefined;
+
+      if (
+        response.status === 304 &&
+        (validators.etag || validators.lastModified)
+      ) {
+        fetchStats.notModified++;
+        return {
+          data: null,
+          etag: etag ?? validators.etag,
+          lastModified: lastModified ?? validators.lastModified,
+        };
+      }
+
       if (!response.ok) {
         throw new FetchError(
           `Failed to fetch image: ${response.status} ${response.statusText}`,
         );
       }
 
-      // Validate content type
-      const contentType = response.headers.get("content-type") || "";
-      if (!contentType.startsWith("image/")) {
-        throw new ValidationError(
-          `URL does not return an image (got ${contentType})`,
-        );
-      }
-
       // Check content length if available
       const contentLength = parseInt(
         response.headers.get("content-length") || "0",
         10,
       );
       if (contentLength > 0 && contentLength > config.maxImageSize) {
-        throw new ValidationError(
-          `Image exceeds maximum size limit (${Math.round(config.maxImageSize / 1024 / 1024)}MB)`,
-        );
+        fetchStats.oversized++;
+        await response.body?.cancel().catch(() => {});
+        throw sizeLimitError();
       }
 
-      const arrayBuffer = await response.arrayBuffer();
-
-      // Double-check actual size
-      if (arrayBuffer.byteLength > config.maxImageSize) {
-        throw new ValidationError(
-          `Image exceeds maximum size limit (${Math.round(config.maxImageSize / 1024 / 1024)}MB)`,
+      // Stream the body so a missing or lying Content-Length can't make us
+      // buffer more than maxImageSize
+      const buffer = await readLimitedStream(
+        response.body,
+        config.maxImageSize,
+      );
+      if (!buffer) {
+        fetchStats.oversized++;
+        console.warn(
+          `Aborted oversized image fetch from ${currentUrl.hostname} (max ${config.maxImageSize} bytes)`,
         );
+        throw sizeLimitError();
       }
 
-      return Buffer.from(arrayBuffer);
+      // Trust the bytes, not the upstream Content-Type
+      const data = await acceptSourceImage(buffer);
+
+      fetchStats.succeeded++;
+      fetchStats.bytes += buffer.length;
+      return { data, etag, lastModified };
     }
 
     throw new FetchError(`Too many redirects (max ${MAX_REDIRECTS})`);
   } catch (error) {
-    if (error instanceof Error && error.name === "AbortError") {
+    fetchStats.failed++;
+    if (
+      error instanceof TimeoutError ||
+      (error instanceof Error && error.name === "AbortError")
+    ) {
+      fetchStats.timedOut++;
       throw new TimeoutError("Image fetch timed out");
     }
     throw error;
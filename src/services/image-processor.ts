@@ -1,44 +1,191 @@
 import sharp from "sharp";
 import { config } from "../config";
+import { SVG_DEFAULT_DENSITY, SVG_MAX_DENSITY } from "../constants";
 import type { ImageFormat, ImageParams } from "../types";
-import { ImageProcessingError, ValidationError } from "../utils/errors";
-import { fetchImage } from "./image-fetcher";
+import {
+  ImageProcessingError,
+  ImageTooLargeError,
+  UnsupportedFormatError,
+  ValidationError,
+} from "../utils/errors";
+import { getFallbackFormat } from "../utils/format-negotiation";
+import { assertInputDimensions } from "../utils/input-limits";
+import { isSvg } from "../utils/svg";
+import {
+  type FrameTransform,
+  getAnimatedFormat,
+  getAnimation,
+  renderAnimation,
+} from "./animation";
+import { assertOutputFormat } from "./format-support";
 import { applyAdjustments } from "./transforms/adjustments";
 import { applyCrop } from "./transforms/crop";
 import { applyOutputFormat } from "./transforms/output";
 import { applyResize } from "./transforms/resize";
-import { applyWatermark } from "./transforms/watermark";
+import { getSourceImage } from "./source-cache";
+import { applyWatermark, getWatermarkOverlay } from "./transforms/watermark";
+
+// Crop → resize → adjustments, everything ahead of the watermark
+async function transformPixels(
+  pipeline: sharp.Sharp,
+  params: ImageParams,
+): Promise<sharp.Sharp> {
+  pipeline = applyCrop(pipeline, params);
+  pipeline = await applyResize(pipeline, params, {
+    maxWidth: config.maxWidth,
+    maxHeight: config.maxHeight,
+  });
+  return applyAdjustments(pipeline, params);
+}
+
+// Transform pipeline: crop → resize → adjustments → watermark
+async function transformFrame(
+  pipeline: sharp.Sharp,
+  params: ImageParams,
+): Promise<sharp.Sharp> {
+  return applyWatermark(await transformPixels(pipeline, params), params);
+}
+
+// Per-request frame transform for animations: the watermark is rendered (and
+// its source fetched) on the first frame and only composited onto the rest
+function createAnimationTransform(): FrameTransform {
+  let overlay: Promise<sharp.OverlayOptions | null> | undefined;
+  return async (pipeline, params) => {
+    const transformed = await transformPixels(pipeline, params);
+    overlay ??= getWatermarkOverlay(transformed, params);
+    const watermark = await overlay;
+    return watermark ? transformed.composite([watermark]) : transformed;
+  };
+}
+
+/**
+ * Picks the DPI to rasterize an SVG source at. An explicit `density` wins;
+ * otherwise a requested width or height raises it so the vector is drawn
+ * at the target size rather than upscaled from its 72 DPI bitmap. Either
+ * way `dpr` multiplies it.
+ */
+async function getSvgDensity(
+  input: Buffer,
+  params: ImageParams,
+): Promise<number> {
+  const dpr = params.dpr ?? 1;
+  let density = SVG_DEFAULT_DENSITY;
+
+  if (params.density) {
+    density = params.density;
+  } else if ((params.w || params.h) && !params.crop) {
+    const { width = 0, height = 0 } = await sharp(input).metadata();
+    density *= Math.max(
+      params.w && width ? params.w / width : 0,
+      params.h && height ? params.h / height : 0,
+      1,
+    );
+  }
+
+  return Math.min(Math.ceil(density * dpr), SVG_MAX_DENSITY);
+}
+
+// Returns a sanitized SVG source as-is; transforms need a raster format
+async function passThroughSvg(input: Buffer): Promise<{
+  buffer: Buffer;
+  format: ImageFormat;
+  width: number;
+  height: number;
+}> {
+  if (!isSvg(input)) {
+    throw new ValidationError("SVG output requires an SVG source");
+  }
+  const { width = 0, height = 0 } = await sharp(input).metadata();
+  return { buffer: input, format: "svg", width, height };
+}
 
 export async function processImage(
   params: ImageParams,
   sourceBuffer?: Buffer,
-): Promise<{ buffer: Buffer; format: ImageFormat }> {
+): Promise<{
+  buffer: Buffer;
+  format: ImageFormat;
+  width: number;
+  height: number;
+}> {
   try {
-    const imageBuffer = sourceBuffer || (await fetchImage(params.url));
+    // Fail fast, before fetching the source, on formats this build lacks
+    if (params.format !== "auto") {
+      await assertOutputFormat(params.format || config.defaultFormat);
+    }
 
-    let pipeline = sharp(imageBuffer, { failOnError: false });
+    const imageBuffer = sourceBuffer || (await getSourceImage(params.url));
+    if (params.format === "svg") {
+      return await passThroughSvg(imageBuffer);
+    }
 
-    // Auto-orient based on EXIF
-    pipeline = pipeline.rotate();
+    const density = isSvg(imageBuffer)
+      ? await getSvgDensity(imageBuffer, params)
+      : undefined;
+    await assertInputDimensions(imageBuffer, "Source image", density);
+    const quality = params.q || config.defaultQuality;
 
-    // Transform pipeline: crop → resize → adjustments → watermark → output
-    pipeline = applyCrop(pipeline, params);
-    pipeline = await applyResize(pipeline, params, {
-      maxWidth: config.maxWidth,
-      maxHeight: config.maxHeight,
+    // Animated sources keep every frame when the output format can carry
+    // them ("auto" here means the client accepts neither AVIF nor WebP)
+    const animation = await getAnimation(imageBuffer, params);
+    const animatedFormat =
+      animation &&
+      getAnimatedFormat(
+        params.format === "auto"
+          ? "gif"
+          : params.format || config.defaultFormat,
+      );
+    if (animation && animatedFormat) {
+      const pipeline = applyOutputFormat(
+        await renderAnimation(
+          imageBuffer,
+          params,
+          animation,
+          createAnimationTransform(),
+        ),
+        animatedFormat,
+        quality,
+        params,
+        animation,
+      );
+      const { data, info } = await pipeline.toBuffer({
+        resolveWithObject: true,
+      });
+      return {
+        buffer: data,
+        format: animatedFormat,
+        width: info.width,
+        height: info.pageHeight ?? info.height,
+      };
+    }
+
+    // Stills, and the first frame of animations the format can't carry
+    let pipeline = sharp(imageBuffer, {
+      density,
+      failOnError: false,
+      limitInputPixels: config.maxInputPixels,
     });
-    pipeline = applyAdjustments(pipeline, params);
-    pipeline = await applyWatermark(pipeline, params);
 
-    const format: ImageFormat = params.format || config.defaultFormat;
-    const quality = params.q || config.defaultQuality;
-    pipeline = applyOutputFormat(pipeline, format, quality);
+    // Auto-orient based on EXIF
+    pipeline = pipeline.rotate();
+    pipeline = await transformFrame(pipeline, params);
+
+    // "auto" reaching this point means the client accepts neither AVIF nor WebP
+    const format: ImageFormat =
+      params.format === "auto"
+        ? getFallbackFormat(!!(await pipeline.metadata()).hasAlpha)
+        : params.format || config.defaultFormat;
+    pipeline = applyOutputFormat(pipeline, format, quality, params);
 
-    const buffer = await pipeline.toBuffer();
-    return { buffer, format };
+    const { data, info } = await pipeline.toBuffer({
+      resolveWithObject: true,
+    });
+    return { buffer: data, format, width: info.width, height: info.height };
   } catch (error) {
     if (
       error instanceof ValidationError ||
+      error instanceof UnsupportedFormatError ||
+      error instanceof ImageTooLargeError ||
       error instanceof ImageProcessingError
     ) {
       throw error;
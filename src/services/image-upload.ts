@@ -0,0 +1,111 @@
+import { createHash } from "node:crypto";
+import { config } from "../config";
+import { MULTIPART_OVERHEAD_BYTES } from "../constants";
+import { ValidationError } from "../utils/errors";
+import { acceptSourceImage } from "../utils/image-type";
+import { readLimitedStream } from "../utils/stream";
+
+function sizeLimitError(): ValidationError {
+  return new ValidationError(
+    `Image exceeds maximum size limit (${Math.round(config.maxImageSize / 1024 / 1024)}MB)`,
+  );
+}
+
+// Reads a request body, rejecting it as soon as it grows past `limit` bytes
+export async function readRequestBody(
+  request: Request,
+  limit: number,
+): Promise<Buffer> {
+  const contentLength = parseInt(
+    request.headers.get("content-length") || "0",
+    10,
+  );
+  if (contentLength > limit) {
+    throw sizeLimitError();
+  }
+
+  const body = await readLimitedStream(request.body, limit);
+  if (!body) {
+    throw sizeLimitError();
+  }
+  return body;
+}
+
+/**
+ * Parses a JSON or multipart/form-data request body into its fields. The
+ * size limit leaves room for form fields next to a max-size image.
+ * `verify` sees the raw bytes before anything is parsed.
+ */
+export async function readFormBody(
+  request: Request,
+  verify?: (body: Buffer) => void,
+): Promise<Record<string, unknown>> {
+  const contentType = request.headers.get("content-type") || "";
+  const body = await readRequestBody(
+    request,
+    config.maxImageSize + MULTIPART_OVERHEAD_BYTES,
+  );
+  verify?.(body);
+
+  if (contentType.startsWith("multipart/form-data")) {
+    try {
+      const form = await new Response(body, {
+        headers: { "Content-Type": contentType },
+      }).formData();
+      return Object.fromEntries(form.entries());
+    } catch {
+      throw new ValidationError("Invalid multipart form data");
+    }
+  }
+
+  if (contentType.startsWith("application/json")) {
+    try {
+      return JSON.parse(body.toString("utf-8"));
+    } catch {
+      throw new ValidationError("Invalid JSON body");
+    }
+  }
+
+  throw new ValidationError(
+    "Request body must be application/json or multipart/form-data",
+  );
+}
+
+// Reads an image from a form field, enforcing the same limits as raw uploads
+export async function readUploadedFile(file: unknown): Promise<Buffer> {
+  if (!(file instanceof Blob)) {
+    throw new ValidationError('Missing image in "file" field');
+  }
+  if (file.size > config.maxImageSize) {
+    throw sizeLimitError();
+  }
+
+  return acceptSourceImage(Buffer.from(await file.arrayBuffer()));
+}
+
+/**
+ * Reads an uploaded image from either a raw image body or a multipart
+ * "file" field, enforcing `config.maxImageSize` while streaming.
+ */
+export async function readUploadedImage(request: Request): Promise<Buffer> {
+  const contentType = request.headers.get("content-type") || "";
+  if (contentType.startsWith("multipart/form-data")) {
+    const fields = await readFormBody(request);
+    return readUploadedFile(fields.file);
+  }
+
+  const buffer = await readRequestBody(request, config.maxImageSize);
+  if (buffer.length === 0) {
+    throw new ValidationError("Request body is empty");
+  }
+  return acceptSourceImage(buffer);
+}
+
+// Uploads are keyed by content so identical uploads share cache entries
+export function getUploadSourceUrl(buffer: Buffer): {
+  url: string;
+  hash: string;
+} {
+  const hash = createHash("sha256").update(buffer).digest("hex");
+  return { url: `upload:${hash}`, hash };
+}
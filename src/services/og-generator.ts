@@ -1,14 +1,23 @@
 import { Resvg } from "@resvg/resvg-js";
 import satori from "satori";
+import sharp from "sharp";
 import { config } from "../config";
 import type { OGParams } from "../types";
-import { ImageProcessingError } from "../utils/errors";
+import {
+  ForbiddenError,
+  ImageProcessingError,
+  ImageTooLargeError,
+  UnsupportedFormatError,
+  ValidationError,
+} from "../utils/errors";
+import { assertInputDimensions } from "../utils/input-limits";
 import {
   getSuggestedFonts,
   isFontSupported,
   loadFontsForSatori,
   preloadDefaultFonts,
 } from "./fonts";
+import { getSourceImage } from "./source-cache";
 
 // Preload default fonts at startup (with rate-limited retries)
 let defaultFontsAttempted = false;
@@ -53,6 +62,20 @@ export async function initTemplates(): Promise<void> {
   templatesLoaded = true;
 }
 
+/**
+ * Names the template an OG request renders with: the requested one if it
+ * exists, otherwise "default", which unknown names fall back to. Inline
+ * `config` templates have no name and return null.
+ */
+export async function resolveTemplateName(
+  params: OGParams,
+): Promise<string | null> {
+  if (params.config) return null;
+  await initTemplates();
+  const name = params.template || "default";
+  return getCustomTemplate(name) ? name : "default";
+}
+
 export function getAvailableTemplates(): string[] {
   return getCustomTemplateNames();
 }
@@ -69,6 +92,135 @@ export function getTemplateInfo(): {
 
 export { getSuggestedFonts };
 
+const REMOTE_URL_PATTERN = /^https?:\/\//i;
+const DATA_IMAGE_PATTERN = /^data:image\//i;
+
+// Fetch a remote image ourselves (SSRF checks, size and pixel limits) and
+// re-encode it as PNG, which Satori can always decode
+async function loadRemoteImage(url: string): Promise<string> {
+  const buffer = await getSourceImage(url);
+  await assertInputDimensions(buffer, "Background image");
+  const png = await sharp(buffer, { limitInputPixels: config.maxInputPixels })
+    .png()
+    .toBuffer();
+  return `data:image/png;base64,${png.toString("base64")}`;
+}
+
+type ImageLoader = (url: string) => Promise<string>;
+
+// Resolves an image reference to something Satori won't fetch by itself:
+// remote URLs are inlined, data: images kept, and anything else is null
+async function resolveImageUrl(
+  url: string,
+  load: ImageLoader,
+): Promise<string | null> {
+  if (DATA_IMAGE_PATTERN.test(url)) return url;
+  if (REMOTE_URL_PATTERN.test(url)) return load(url);
+  return null;
+}
+
+function skipSpaces(value: string, from: number): number {
+  let index = from;
+  while (index < value.length && /\s/.test(value.charAt(index))) index++;
+  return index;
+}
+
+// Parses the url() token whose argument starts at `from` into its URL and
+// the index just past its closing parenthesis, or null if it is unterminated
+function readStyleUrl(
+  value: string,
+  from: number,
+): { url: string; end: number } | null {
+  const start = skipSpaces(value, from);
+  const quote = value.charAt(start);
+  if (quote === '"' || quote === "'") {
+    const close = value.indexOf(quote, start + 1);
+    if (close === -1) return null;
+    const end = skipSpaces(value, close + 1);
+    if (value.charAt(end) !== ")") return null;
+    return { url: value.slice(start + 1, close), end: end + 1 };
+  }
+  const close = value.indexOf(")", start);
+  if (close === -1) return null;
+  return { url: value.slice(start, close).trim(), end: close + 1 };
+}
+
+// Rewrites every url() in a style value, whatever its case, quoting or
+// position. Scans with indexOf: a regex here backtracks on unterminated urls.
+async function inlineStyleUrls(
+  value: string,
+  load: ImageLoader,
+): Promise<string> {
+  const lower = value.toLowerCase();
+  let result = "";
+  let last = 0;
+  for (
+    let index = lower.indexOf("url(");
+    index !== -1;
+    index = lower.indexOf("url(", last)
+  ) {
+    const token = readStyleUrl(value, index + 4);
+    const resolved = token && (await resolveImageUrl(token.url.trim(), load));
+    // Fail closed on an unterminated url(), or a data URI whose ")" would
+    // end the rewritten url() early
+    if (!token || resolved?.includes(")")) {
+      throw new ValidationError("Unsupported url() in template style");
+    }
+    result += value.slice(last, index);
+    result += resolved ? `url(${resolved})` : "none";
+    last = token.end;
+  }
+  return result + value.slice(last);
+}
+
+/**
+ * Replaces every image reference Satori would fetch (style url() values and
+ * <img> sources) with an inlined data URI, so template variables such as
+ * {{image}} can't reach the network around the SSRF checks. References that
+ * are neither remote http(s) URLs nor data: images are stripped from styles
+ * and rejected as image sources.
+ */
+export async function inlineRemoteImages(
+  node: ElementNode,
+  loaded: Map<string, Promise<string>> = new Map(),
+): Promise<void> {
+  const load: ImageLoader = (url) => {
+    let dataUri = loaded.get(url);
+    if (!dataUri) {
+      dataUri = loadRemoteImage(url);
+      loaded.set(url, dataUri);
+    }
+    return dataUri;
+  };
+
+  const style = node.props.style as Record<string, unknown> | undefined;
+  if (style) {
+    const inlined: Record<string, unknown> = { ...style };
+    for (const [key, value] of Object.entries(style)) {
+      if (typeof value === "string" && /url\(/i.test(value)) {
+        inlined[key] = await inlineStyleUrls(value, load);
+      }
+    }
+    // Copy rather than mutate: styles may be shared with a loaded template
+    node.props.style = inlined;
+  }
+
+  const src = node.props.src;
+  if (typeof src === "string") {
+    const resolved = await resolveImageUrl(src.trim(), load);
+    if (!resolved) {
+      throw new ValidationError("Unsupported image source in template");
+    }
+    node.props = { ...node.props, src: resolved };
+  }
+
+  for (const child of node.props.children ?? []) {
+    if (child && typeof child === "object") {
+      await inlineRemoteImages(child, loaded);
+    }
+  }
+}
+
 export async function generateOGImage(params: OGParams): Promise<Buffer> {
   try {
     await ensureDefaultFontsLoaded();
@@ -132,6 +284,8 @@ export async function generateOGImage(params: OGParams): Promise<Buffer> {
       }
     }
 
+    await inlineRemoteImages(element);
+
     // Generate SVG with Satori
     // ElementNode is compatible with React's internal element format that satori accepts
     const svg = await satori(element as Parameters<typeof satori>[0], {
@@ -153,7 +307,13 @@ export async function generateOGImage(params: OGParams): Promise<Buffer> {
     const pngData = resvg.render();
     return Buffer.from(pngData.asPng());
   } catch (error) {
-    if (error instanceof ImageProcessingError) {
+    if (
+      error instanceof ImageProcessingError ||
+      error instanceof ImageTooLargeError ||
+      error instanceof UnsupportedFormatError ||
+      error instanceof ValidationError ||
+      error instanceof ForbiddenError
+    ) {
       throw error;
     }
     if (error instanceof Error) {
@@ -0,0 +1,67 @@
+import { config } from "../config";
+import type { ImageParams } from "../types";
+
+// Named transformation preset (JSON-based)
+export interface PresetConfig {
+  name: string;
+  description?: string;
+  strict?: boolean; // Reject query params the preset doesn't define
+  params: Partial<Omit<ImageParams, "url">>;
+}
+
+// Preset storage
+const presets: Map<string, PresetConfig> = new Map();
+
+export async function loadPresets(presetsDir: string): Promise<void> {
+  try {
+    const { readdirSync, existsSync } = await import("node:fs");
+    const { join } = await import("node:path");
+
+    if (!existsSync(presetsDir)) {
+      console.log(`Presets directory not found: ${presetsDir}`);
+      return;
+    }
+
+    // Read all JSON files in the directory
+    const files = readdirSync(presetsDir).filter((f) => f.endsWith(".json"));
+
+    for (const fileName of files) {
+      try {
+        const filePath = join(presetsDir, fileName);
+        const file = Bun.file(filePath);
+        const content = await file.json();
+
+        if (content.name && isPlainObject(content.params)) {
+          // A preset can't pin the source image
+          const { url: _, ...params } = content.params;
+          presets.set(content.name, { ...content, params } as PresetConfig);
+          console.log(`Loaded preset: ${content.name}`);
+        }
+      } catch (err) {
+        console.error(`Failed to load preset from ${fileName}:`, err);
+      }
+    }
+  } catch (err) {
+    console.error("Failed to load presets:", err);
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+let presetsLoaded = false;
+
+export async function initPresets(): Promise<void> {
+  if (presetsLoaded) return;
+  await loadPresets(config.presetsDir);
+  presetsLoaded = true;
+}
+
+export function getPreset(name: string): PresetConfig | undefined {
+  return presets.get(name);
+}
+
+export function getPresetNames(): string[] {
+  return Array.from(presets.keys());
+}
@@ -0,0 +1,83 @@
+import { config } from "../config";
+import { FetchError, TimeoutError } from "../utils/errors";
+import { createSingleFlight } from "../utils/single-flight";
+import { getCachedSource, getCacheTiers, setCachedSource } from "./cache";
+import { type FetchedSource, fetchImage, fetchSource } from "./image-fetcher";
+
+// Per-process source tier counters, exposed via /health
+const sourceStats = {
+  hits: 0,
+  misses: 0,
+  revalidated: 0,
+  staleServed: 0,
+};
+
+export function getSourceCacheStats(): typeof sourceStats {
+  return { ...sourceStats };
+}
+
+// Concurrent variants of one source share a single lookup and fetch
+const loads = createSingleFlight<Buffer>();
+
+/**
+ * Returns a source image's bytes, fetching the origin at most once per
+ * SOURCE_CACHE_TTL. Stale copies are revalidated with the origin's ETag or
+ * Last-Modified, so an unchanged source is never downloaded twice. With
+ * CACHE_STALE_TTL set, a stale copy is served when the origin is unreachable.
+ */
+export function getSourceImage(url: string): Promise<Buffer> {
+  if (getCacheTiers().length === 0 || config.sourceCacheTTL === 0) {
+    return fetchImage(url);
+  }
+
+  return loads.run(url, async () => {
+    const cached = await getCachedSource(url);
+    if (
+      cached &&
+      Date.now() - cached.createdAt < config.sourceCacheTTL * 1000
+    ) {
+      sourceStats.hits++;
+      return cached.data;
+    }
+
+    let fetched: FetchedSource;
+    try {
+      fetched = await fetchSource(url, {
+        etag: cached?.etag,
+        lastModified: cached?.lastModified,
+      });
+    } catch (error) {
+      if (
+        cached &&
+        config.cacheStaleTTL > 0 &&
+        (error instanceof FetchError || error instanceof TimeoutError)
+      ) {
+        sourceStats.staleServed++;
+        console.warn(`Serving stale source for ${url}:`, error.message);
+        return cached.data;
+      }
+      throw error;
+    }
+
+    if (!fetched.data && cached) {
+      sourceStats.revalidated++;
+      await setCachedSource(url, {
+        ...cached,
+        etag: fetched.etag,
+        lastModified: fetched.lastModified,
+        createdAt: Date.now(),
+      });
+      return cached.data;
+    }
+
+    sourceStats.misses++;
+    const data = fetched.data as Buffer;
+    setCachedSource(url, {
+      data,
+      etag: fetched.etag,
+      lastModified: fetched.lastModified,
+      createdAt: Date.now(),
+    }).catch((err) => console.error("Source cache write error:", err));
+    return data;
+  });
+}
@@ -0,0 +1,115 @@
+import {
+  DEFAULT_SRCSET_STEP,
+  DEFAULT_SRCSET_WIDTHS,
+  MAX_SRCSET_VARIANTS,
+} from "../constants";
+import type { ImageParams } from "../types";
+import { ValidationError } from "../utils/errors";
+
+export interface SrcsetWidthOptions {
+  widths?: string; // Comma-separated list, e.g. "320,640,1280"
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+export interface SrcsetVariant {
+  width: number;
+  height?: number;
+  params: ImageParams;
+}
+
+export function getSrcsetWidths(
+  options: SrcsetWidthOptions,
+  maxWidth: number,
+): number[] {
+  let widths: number[];
+
+  if (options.widths) {
+    widths = options.widths.split(",").map(Number);
+  } else if (options.min !== undefined || options.max !== undefined) {
+    if (options.min === undefined || options.max === undefined) {
+      throw new ValidationError("Both min and max are required for a range");
+    }
+    if (options.min > options.max) {
+      throw new ValidationError("min must not be greater than max");
+    }
+    // Bound the range before expanding it, so a huge max can't allocate
+    // millions of widths only to be rejected afterwards
+    const max = Math.min(options.max, maxWidth);
+    const min = Math.min(options.min, max);
+    const step = options.step || DEFAULT_SRCSET_STEP;
+    if (Math.ceil((max - min) / step) + 1 > MAX_SRCSET_VARIANTS) {
+      throw new ValidationError(
+        `Too many srcset widths (max ${MAX_SRCSET_VARIANTS})`,
+      );
+    }
+    widths = [];
+    for (let w = min; w < max; w += step) {
+      widths.push(w);
+    }
+    widths.push(max);
+  } else {
+    widths = DEFAULT_SRCSET_WIDTHS;
+  }
+
+  // Same bounds applyResize enforces, deduplicated and ascending
+  const result = [
+    ...new Set(
+      widths
+        .filter((w) => Number.isInteger(w) && w > 0)
+        .map((w) => Math.min(w, maxWidth)),
+    ),
+  ].toSorted((a, b) => a - b);
+
+  if (result.length === 0) {
+    throw new ValidationError("No valid widths for srcset");
+  }
+  if (result.length > MAX_SRCSET_VARIANTS) {
+    throw new ValidationError(
+      `Too many srcset widths (max ${MAX_SRCSET_VARIANTS})`,
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Expands base transform params into one variant per width. When both `w`
+ * and `h` are given, their aspect ratio is kept for every variant.
+ */
+export function getSrcsetVariants(
+  params: ImageParams,
+  widths: number[],
+  maxHeight: number,
+): SrcsetVariant[] {
+  if (params.h !== undefined && params.w === undefined) {
+    throw new ValidationError("h requires w to derive the srcset aspect ratio");
+  }
+
+  const ratio = params.w && params.h ? params.h / params.w : undefined;
+
+  return widths.map((width) => {
+    const height = ratio
+      ? Math.min(Math.max(1, Math.round(width * ratio)), maxHeight)
+      : undefined;
+    return {
+      width,
+      height,
+      // Width descriptors are device pixels; the browser applies its DPR
+      params: {
+        ...params,
+        w: width,
+        h: height,
+        size: undefined,
+        dpr: undefined,
+      },
+    };
+  });
+}
+
+export function buildSrcset(
+  variants: { url: string; width: number }[],
+): string {
+  return variants.map((v) => `${v.url} ${v.width}w`).join(", ");
+}
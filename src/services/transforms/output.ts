@@ -1,27 +1,119 @@
-import type sharp from "sharp";
-import type { ImageFormat } from "../../types";
+import sharp from "sharp";
+import type { ImageFormat, ImageParams } from "../../types";
+import { ValidationError } from "../../utils/errors";
+import type { Animation } from "../animation";
+
+// Format-specific encoder params; each encoder ignores the ones it lacks
+export type EncoderParams = Pick<
+  ImageParams,
+  | "effort"
+  | "lossless"
+  | "near_lossless"
+  | "chroma_subsampling"
+  | "progressive"
+  | "colors"
+  | "dither"
+  | "bitdepth"
+  | "compression"
+>;
+
+// Palette quantization for PNG and GIF
+function paletteOptions(encoder: EncoderParams): {
+  colors?: number;
+  dither?: number;
+} {
+  return { colors: encoder.colors, dither: encoder.dither };
+}
 
 export function applyOutputFormat(
   pipeline: sharp.Sharp,
   format: ImageFormat,
   quality: number,
+  encoder: EncoderParams = {},
+  animation?: Animation,
 ): sharp.Sharp {
+  // Frame timing for multi-page output (GIF and WebP only)
+  const timing = animation
+    ? { delay: animation.delay, loop: animation.loop }
+    : {};
+
+  const webp = () =>
+    pipeline.webp({
+      quality,
+      // WebP effort tops out at 6, below AVIF's 9
+      effort:
+        encoder.effort === undefined ? undefined : Math.min(encoder.effort, 6),
+      lossless: encoder.lossless,
+      nearLossless: encoder.near_lossless,
+      ...timing,
+    });
+
+  // AVIF and HEIC share libheif and its options
+  const heif = (compression: "av1" | "hevc") => {
+    // Prebuilt sharp binaries only encode 8-bit HEIF
+    if (encoder.bitdepth && encoder.bitdepth !== 8 && sharp.versions.heif) {
+      throw new ValidationError(
+        `${format.toUpperCase()} bitdepth ${encoder.bitdepth} is not supported by this build`,
+      );
+    }
+    return pipeline.heif({
+      compression,
+      quality,
+      effort: encoder.effort,
+      lossless: encoder.lossless,
+      chromaSubsampling: encoder.chroma_subsampling,
+      bitdepth: encoder.bitdepth,
+    });
+  };
+
   switch (format) {
     case "webp":
-      return pipeline.webp({ quality });
+      return webp();
     case "avif":
-      return pipeline.avif({ quality });
+      return heif("av1");
+    case "heic":
+      return heif("hevc");
+    case "jxl":
+      return pipeline.jxl({
+        quality,
+        // JPEG XL effort starts at 1
+        effort:
+          encoder.effort === undefined
+            ? undefined
+            : Math.max(encoder.effort, 1),
+        lossless: encoder.lossless,
+      });
+    case "tiff":
+      return pipeline.tiff({ quality, compression: encoder.compression });
     case "png":
       // PNG quality only applies with palette mode; use compressionLevel for full-color PNGs
       return pipeline.png({
         compressionLevel: Math.round(((100 - quality) / 100) * 9),
+        progressive: encoder.progressive,
+        ...(encoder.colors !== undefined || encoder.dither !== undefined
+          ? { palette: true, quality, ...paletteOptions(encoder) }
+          : {}),
       });
     case "jpg":
-    case "jpeg":
-      return pipeline.jpeg({ quality, mozjpeg: true });
+    case "jpeg": {
+      pipeline = pipeline.jpeg({
+        quality,
+        mozjpeg: true,
+        chromaSubsampling: encoder.chroma_subsampling,
+      });
+      // The mozjpeg preset turns progressive scans on; a second call is the
+      // only way to opt back out to baseline
+      return encoder.progressive === undefined
+        ? pipeline
+        : pipeline.jpeg({ progressive: encoder.progressive });
+    }
     case "gif":
-      return pipeline.gif();
+      return pipeline.gif({
+        progressive: encoder.progressive,
+        ...paletteOptions(encoder),
+        ...timing,
+      });
     default:
-      return pipeline.webp({ quality });
+      return webp();
   }
 }
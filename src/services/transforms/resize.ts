@@ -35,11 +35,16 @@ export async function applyResize(
       });
     }
   } else {
+    // dpr scales the requested size; the output limits still apply
+    const dpr = params.dpr ?? 1;
     const width = params.w
-      ? Math.min(Math.max(1, params.w), resizeConfig.maxWidth)
+      ? Math.min(Math.max(1, Math.round(params.w * dpr)), resizeConfig.maxWidth)
       : undefined;
     const height = params.h
-      ? Math.min(Math.max(1, params.h), resizeConfig.maxHeight)
+      ? Math.min(
+          Math.max(1, Math.round(params.h * dpr)),
+          resizeConfig.maxHeight,
+        )
       : undefined;
     const fit = params.fit || "cover";
 
@@ -1,6 +1,7 @@
 import { Resvg } from "@resvg/resvg-js";
 import satori from "satori";
 import sharp from "sharp";
+import { config } from "../../config";
 import {
   DEFAULT_FALLBACK_HEIGHT,
   DEFAULT_FALLBACK_WIDTH,
@@ -8,8 +9,9 @@ import {
   TEXT_WIDTH_MULTIPLIER,
 } from "../../constants";
 import type { ImageParams, WatermarkPosition } from "../../types";
+import { assertInputDimensions } from "../../utils/input-limits";
 import { loadFontsForSatori } from "../fonts";
-import { fetchImage } from "../image-fetcher";
+import { getSourceImage } from "../source-cache";
 
 const GRAVITY_MAP: Record<WatermarkPosition, string> = {
   center: "center",
@@ -23,11 +25,16 @@ const GRAVITY_MAP: Record<WatermarkPosition, string> = {
   right: "east",
 };
 
-export async function applyWatermark(
+/**
+ * Renders the watermark for a transformed pipeline and places it by its
+ * final size, or returns null when none is requested. Frames of an animation
+ * share one size, so they can reuse a single overlay.
+ */
+export async function getWatermarkOverlay(
   pipeline: sharp.Sharp,
   params: ImageParams,
-): Promise<sharp.Sharp> {
-  if (!params.wm_image && !params.wm_text) return pipeline;
+): Promise<sharp.OverlayOptions | null> {
+  if (!params.wm_image && !params.wm_text) return null;
 
   // Get actual post-transform dimensions by resolving the pipeline
   const { info } = await pipeline.clone().toBuffer({ resolveWithObject: true });
@@ -71,21 +78,22 @@ export async function applyWatermark(
       left = Math.round((mainWidth - wmWidth) / 2);
     }
 
-    return pipeline.composite([
-      {
-        input: watermarkInput,
-        top: Math.max(0, top),
-        left: Math.max(0, left),
-      },
-    ]);
+    return {
+      input: watermarkInput,
+      top: Math.max(0, top),
+      left: Math.max(0, left),
+    };
   }
 
-  return pipeline.composite([
-    {
-      input: watermarkInput,
-      gravity,
-    },
-  ]);
+  return { input: watermarkInput, gravity };
+}
+
+export async function applyWatermark(
+  pipeline: sharp.Sharp,
+  params: ImageParams,
+): Promise<sharp.Sharp> {
+  const overlay = await getWatermarkOverlay(pipeline, params);
+  return overlay ? pipeline.composite([overlay]) : pipeline;
 }
 
 async function renderTextWatermark(params: ImageParams): Promise<Buffer> {
@@ -140,8 +148,11 @@ async function renderImageWatermark(
   params: ImageParams,
   mainWidth: number,
 ): Promise<Buffer> {
-  const watermarkBuffer = await fetchImage(params.wm_image || "");
-  let watermarkPipeline = sharp(watermarkBuffer);
+  const watermarkBuffer = await getSourceImage(params.wm_image || "");
+  await assertInputDimensions(watermarkBuffer, "Watermark image");
+  let watermarkPipeline = sharp(watermarkBuffer, {
+    limitInputPixels: config.maxInputPixels,
+  });
 
   // Scale watermark if specified (percentage of main image width)
   if (params.wm_scale) {
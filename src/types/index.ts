@@ -1,6 +1,25 @@
 import type { FitEnum } from "sharp";
 
-export type ImageFormat = "webp" | "avif" | "png" | "jpg" | "jpeg" | "gif";
+export type ImageFormat =
+  | "webp"
+  | "avif"
+  | "png"
+  | "jpg"
+  | "jpeg"
+  | "gif"
+  | "tiff"
+  | "heic"
+  | "jxl"
+  | "svg"; // Pass-through of sanitized SVG sources
+
+export type TiffCompression =
+  | "none"
+  | "jpeg"
+  | "deflate"
+  | "lzw"
+  | "packbits"
+  | "webp"
+  | "zstd";
 
 export type FitMode = keyof FitEnum;
 
@@ -33,10 +52,11 @@ export interface ImageParams {
   w?: number;
   h?: number;
   size?: number; // Percentage (1-100) of original image size
+  dpr?: number; // Device pixel ratio (1-4), multiplies w and h
   fit?: FitMode;
   position?: Position;
   q?: number;
-  format?: ImageFormat;
+  format?: ImageFormat | "auto"; // "auto" is negotiated from the Accept header
   blur?: number;
   grayscale?: boolean;
   rotate?: number;
@@ -48,6 +68,19 @@ export interface ImageParams {
   tint?: string;
   trim?: boolean;
   crop?: string; // "x,y,w,h"
+  density?: number; // DPI for rasterizing SVG sources
+  animated?: boolean; // false = first frame only (default: keep animation)
+  frames?: number; // Keep at most this many frames of an animated source
+  // Encoder options, applied by the formats that support them
+  effort?: number; // CPU effort: 0-6 for WebP, 0-9 for AVIF/HEIC, 1-9 for JXL
+  lossless?: boolean; // WebP/AVIF/HEIC/JXL
+  near_lossless?: boolean; // WebP
+  chroma_subsampling?: "4:2:0" | "4:4:4"; // JPEG/AVIF/HEIC
+  progressive?: boolean; // Progressive JPEG, interlaced PNG/GIF
+  colors?: number; // Palette size for PNG/GIF (2-256)
+  dither?: number; // Palette dithering for PNG/GIF (0-1)
+  bitdepth?: 8 | 10 | 12; // AVIF/HEIC
+  compression?: TiffCompression; // TIFF
   wm_image?: string; // Image watermark URL
   wm_text?: string; // Text watermark
   wm_position?: WatermarkPosition;
@@ -87,9 +120,20 @@ export interface OGParams {
 export interface CacheEntry {
   data: Buffer;
   format: ImageFormat;
+  width?: number;
+  height?: number;
+  hash: string; // SHA-256 of data (hex)
   createdAt: number;
 }
 
+// Raw source image bytes, kept with the origin's validators for revalidation
+export interface SourceEntry {
+  data: Buffer;
+  etag?: string;
+  lastModified?: string;
+  createdAt: number; // Last fetched or revalidated
+}
+
 export interface HealthStatus {
   status: "ok" | "degraded" | "error";
   uptime: number;
@@ -105,6 +149,20 @@ export type CacheKeyParams = Record<
   string | number | boolean | undefined
 >;
 
+// Canonical "k=v&k=v" form with undefined values dropped and keys sorted,
+// shared by cache keys and URL signatures. Keys and values are
+// percent-encoded with encodeURIComponent (a space is %20, not +) so a value
+// containing "&w=4000" can't pass for a separate param.
+export function canonicalizeParams(params: CacheKeyParams): string {
+  return Object.entries(params)
+    .filter(([, v]) => v !== undefined)
+    .toSorted(([a], [b]) => a.localeCompare(b))
+    .map(
+      ([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(String(v))}`,
+    )
+    .join("&");
+}
+
 export function imageParamsToCacheKeyParams(
   params: ImageParams,
 ): CacheKeyParams {
@@ -113,6 +171,7 @@ export function imageParamsToCacheKeyParams(
     w: params.w,
     h: params.h,
     size: params.size,
+    dpr: params.dpr,
     fit: params.fit,
     position: params.position,
     q: params.q,
@@ -128,6 +187,18 @@ export function imageParamsToCacheKeyParams(
     tint: params.tint,
     trim: params.trim,
     crop: params.crop,
+    density: params.density,
+    animated: params.animated,
+    frames: params.frames,
+    effort: params.effort,
+    lossless: params.lossless,
+    near_lossless: params.near_lossless,
+    chroma_subsampling: params.chroma_subsampling,
+    progressive: params.progressive,
+    colors: params.colors,
+    dither: params.dither,
+    bitdepth: params.bitdepth,
+    compression: params.compression,
     wm_image: params.wm_image,
     wm_text: params.wm_text,
     wm_position: params.wm_position,
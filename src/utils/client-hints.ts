@@ -0,0 +1,51 @@
+import { config } from "../config";
+import { CLIENT_HINT_DPRS, CLIENT_HINT_WIDTH_STEP } from "../constants";
+import type { ImageParams } from "../types";
+
+// Hints PixelServe sizes images from, advertised in Accept-CH and Vary
+export const CLIENT_HINTS = [
+  "Sec-CH-DPR",
+  "Sec-CH-Width",
+  "Sec-CH-Viewport-Width",
+];
+
+function parseHint(headers: Headers, name: string): number | undefined {
+  const value = Number.parseFloat(headers.get(name) ?? "");
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+// Rounds a DPR up to the next supported ratio, capped at the highest
+function snapDpr(dpr: number): number {
+  return (
+    CLIENT_HINT_DPRS.find((ratio) => ratio >= dpr) ??
+    (CLIENT_HINT_DPRS.at(-1) as number)
+  );
+}
+
+/**
+ * Fills in `dpr` and `w` from client hints the URL leaves unset. Explicit
+ * params always win, and any sizing param (w, h, size) ignores the width
+ * hints. Sec-CH-Width is in device pixels, so it is divided by the DPR that
+ * resizing multiplies back in; Sec-CH-Viewport-Width is in CSS pixels.
+ * Headers aren't signed, so hinted values are rounded up to a few DPRs and
+ * width steps to keep the number of cached variants small.
+ */
+export function applyClientHints(params: ImageParams, headers: Headers): void {
+  if (params.dpr === undefined) {
+    const dpr = parseHint(headers, "sec-ch-dpr");
+    if (dpr) {
+      params.dpr = snapDpr(dpr);
+    }
+  }
+
+  if (params.w || params.h || params.size) return;
+
+  const width = parseHint(headers, "sec-ch-width");
+  const viewportWidth = parseHint(headers, "sec-ch-viewport-width");
+  const cssWidth = width ? width / (params.dpr ?? 1) : viewportWidth;
+  if (cssWidth) {
+    const snapped =
+      Math.ceil(cssWidth / CLIENT_HINT_WIDTH_STEP) * CLIENT_HINT_WIDTH_STEP;
+    params.w = Math.min(snapped, config.maxWidth);
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Evaluates If-None-Match / If-Modified-Since against a response's validators.
+ * If-None-Match takes precedence when present (RFC 9110 §13.2.2).
+ */
+export function isNotModified(
+  request: Request,
+  validators: { ETag?: string; "Last-Modified"?: string },
+): boolean {
+  const ifNoneMatch = request.headers.get("if-none-match");
+  if (ifNoneMatch) {
+    if (!validators.ETag) return false;
+    // Weak comparison: W/ prefixes are ignored for GET/HEAD
+    const etag = validators.ETag.replace(/^W\//, "");
+    return ifNoneMatch
+      .split(",")
+      .map((tag) => tag.trim().replace(/^W\//, ""))
+      .some((tag) => tag === "*" || tag === etag);
+  }
+
+  const ifModifiedSince = request.headers.get("if-modified-since");
+  if (ifModifiedSince && validators["Last-Modified"]) {
+    const since = Date.parse(ifModifiedSince);
+    const lastModified = Date.parse(validators["Last-Modified"]);
+    if (Number.isNaN(since) || Number.isNaN(lastModified)) return false;
+    return lastModified <= since;
+  }
+
+  return false;
+}
@@ -16,6 +16,13 @@ export class ValidationError extends PixelServeError {
   }
 }
 
+export class UnauthorizedError extends PixelServeError {
+  constructor(message: string) {
+    super(message, 401, "UNAUTHORIZED");
+    this.name = "UnauthorizedError";
+  }
+}
+
 export class ForbiddenError extends PixelServeError {
   constructor(message: string) {
     super(message, 403, "FORBIDDEN");
@@ -44,6 +51,20 @@ export class TimeoutError extends PixelServeError {
   }
 }
 
+export class UnsupportedFormatError extends PixelServeError {
+  constructor(message: string) {
+    super(message, 415, "UNSUPPORTED_FORMAT");
+    this.name = "UnsupportedFormatError";
+  }
+}
+
+export class ImageTooLargeError extends PixelServeError {
+  constructor(message: string) {
+    super(message, 413, "IMAGE_TOO_LARGE");
+    this.name = "ImageTooLargeError";
+  }
+}
+
 export class ImageProcessingError extends PixelServeError {
   constructor(message: string) {
     super(message, 422, "IMAGE_PROCESSING_ERROR");
@@ -0,0 +1,59 @@
+import type { ImageFormat } from "../types";
+
+// Modern formats in order of preference. Only explicit Accept entries count:
+// browsers send image/* and */* regardless of what they can actually decode.
+const NEGOTIABLE_FORMATS: { format: ImageFormat; mime: string }[] = [
+  { format: "avif", mime: "image/avif" },
+  { format: "webp", mime: "image/webp" },
+];
+
+function parseAccept(accept: string): Map<string, number> {
+  const types = new Map<string, number>();
+
+  for (const part of accept.split(",")) {
+    const [type, ...paramParts] = part.trim().split(";");
+    if (!type) continue;
+
+    let q = 1;
+    for (const param of paramParts) {
+      const [key, value] = param.trim().split("=");
+      if (key === "q" && value !== undefined) {
+        const parsed = Number.parseFloat(value);
+        q = Number.isFinite(parsed) ? parsed : 0;
+      }
+    }
+
+    types.set(type.trim().toLowerCase(), q);
+  }
+
+  return types;
+}
+
+/**
+ * Picks the best modern output format the client explicitly accepts and
+ * the server can encode (`supported`, when given). Returns null when no
+ * such format is accepted, in which case the caller falls back to a legacy
+ * format based on the source image.
+ */
+export function negotiateFormat(
+  accept: string | null,
+  supported?: ImageFormat[],
+): ImageFormat | null {
+  if (!accept) return null;
+
+  const types = parseAccept(accept);
+  for (const { format, mime } of NEGOTIABLE_FORMATS) {
+    if (supported && !supported.includes(format)) continue;
+    const q = types.get(mime);
+    if (q !== undefined && q > 0) {
+      return format;
+    }
+  }
+
+  return null;
+}
+
+// Legacy fallback for clients without AVIF/WebP support
+export function getFallbackFormat(hasAlpha: boolean): ImageFormat {
+  return hasAlpha ? "png" : "jpeg";
+}
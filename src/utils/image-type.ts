@@ -0,0 +1,56 @@
+import { fileTypeFromBuffer } from "file-type";
+import { config } from "../config";
+import { UnsupportedFormatError } from "./errors";
+import { isSvg, sanitizeSvg } from "./svg";
+
+// file-type extensions that differ from the names used in config
+const FORMAT_ALIASES: Record<string, string> = {
+  jpg: "jpeg",
+  tif: "tiff",
+  heic: "heif",
+};
+
+function normalizeFormat(format: string): string {
+  const lower = format.toLowerCase();
+  return FORMAT_ALIASES[lower] ?? lower;
+}
+
+/**
+ * Detects an image's format from its magic bytes, or from the root element
+ * for SVG. Returns null when the content isn't a recognized image, whatever
+ * it claims to be.
+ */
+export async function detectImageFormat(
+  buffer: Uint8Array,
+): Promise<string | null> {
+  const type = await fileTypeFromBuffer(buffer);
+  if (!type?.mime.startsWith("image/")) {
+    return isSvg(buffer) ? "svg" : null;
+  }
+  return normalizeFormat(type.ext);
+}
+
+// Rejects content that isn't an image in config.allowedInputFormats
+export async function assertImageFormat(buffer: Uint8Array): Promise<string> {
+  const format = await detectImageFormat(buffer);
+  if (!format) {
+    throw new UnsupportedFormatError("Source is not a recognized image");
+  }
+
+  const allowed = config.allowedInputFormats.map(normalizeFormat);
+  if (!allowed.includes(format)) {
+    throw new UnsupportedFormatError(`Unsupported input format: ${format}`);
+  }
+
+  return format;
+}
+
+/**
+ * Validates an untrusted source image and returns the bytes to cache and
+ * process. SVG is sanitized here, once, so every consumer (renders,
+ * watermarks, OG backgrounds, pass-through output) only sees the safe copy.
+ */
+export async function acceptSourceImage(buffer: Buffer): Promise<Buffer> {
+  const format = await assertImageFormat(buffer);
+  return format === "svg" ? sanitizeSvg(buffer) : buffer;
+}
@@ -0,0 +1,30 @@
+import sharp from "sharp";
+import { config } from "../config";
+import { ImageTooLargeError } from "./errors";
+
+/**
+ * Rejects images whose declared dimensions exceed the configured input
+ * limits. Only the header is read, so a small file that decodes to a huge
+ * bitmap (a decompression bomb) is caught before any pixels are allocated.
+ */
+export async function assertInputDimensions(
+  input: Buffer,
+  label = "Source image",
+  density?: number, // SVG rasterization DPI
+): Promise<void> {
+  const { width = 0, height = 0 } = await sharp(input, {
+    density,
+    limitInputPixels: false,
+  }).metadata();
+
+  if (width > config.maxInputWidth || height > config.maxInputHeight) {
+    throw new ImageTooLargeError(
+      `${label} is ${width}x${height}, larger than the ${config.maxInputWidth}x${config.maxInputHeight} limit`,
+    );
+  }
+  if (width * height > config.maxInputPixels) {
+    throw new ImageTooLargeError(
+      `${label} has ${width * height} pixels, more than the ${config.maxInputPixels} limit`,
+    );
+  }
+}
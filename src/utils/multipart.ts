@@ -0,0 +1,33 @@
+import { randomUUID } from "node:crypto";
+
+export interface MultipartPart {
+  headers: Record<string, string>;
+  body: Uint8Array;
+}
+
+/**
+ * Encodes parts as a multipart/mixed body (RFC 2046). Returns the body and
+ * the Content-Type header value carrying the boundary.
+ */
+export function encodeMultipart(parts: MultipartPart[]): {
+  body: Buffer;
+  contentType: string;
+} {
+  const boundary = `pixelserve-${randomUUID()}`;
+  const chunks: Uint8Array[] = [];
+
+  for (const part of parts) {
+    const headerLines = Object.entries(part.headers)
+      .map(([name, value]) => `${name}: ${value}`)
+      .join("\r\n");
+    chunks.push(Buffer.from(`--${boundary}\r\n${headerLines}\r\n\r\n`));
+    chunks.push(part.body);
+    chunks.push(Buffer.from("\r\n"));
+  }
+  chunks.push(Buffer.from(`--${boundary}--\r\n`));
+
+  return {
+    body: Buffer.concat(chunks),
+    contentType: `multipart/mixed; boundary=${boundary}`,
+  };
+}
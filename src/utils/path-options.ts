@@ -0,0 +1,67 @@
+import { ValidationError } from "./errors";
+
+// Short aliases accepted in path options (Cloudinary/imgproxy style)
+const OPTION_ALIASES: Record<string, string> = {
+  f: "format",
+};
+
+// Prefixes of keys that contain an underscore themselves
+const COMPOUND_KEY_PREFIXES = ["wm_", "near_", "chroma_"];
+
+// Keys that can't be set from the options segment
+const RESERVED_OPTIONS = new Set(["url", "s", "exp"]);
+
+/**
+ * Parses an options segment like `w_400,h_300,fit_cover,f_webp` into raw
+ * query-style params. Keys are split from values at the first underscore
+ * (`wm_`, `near_` and `chroma_` keys at the second), values are URL-decoded, a bare key means
+ * `true`, and `crop` accepts `:` in place of commas.
+ */
+export function parsePathOptions(segment: string): Record<string, string> {
+  const options: Record<string, string> = {};
+
+  for (const token of segment.split(",")) {
+    if (!token) continue;
+
+    const offset =
+      COMPOUND_KEY_PREFIXES.find((prefix) => token.startsWith(prefix))
+        ?.length ?? 0;
+    const separator = token.indexOf("_", offset);
+    const rawKey = separator === -1 ? token : token.substring(0, separator);
+    const rawValue = separator === -1 ? "true" : token.substring(separator + 1);
+
+    const key = OPTION_ALIASES[rawKey] ?? rawKey;
+    if (RESERVED_OPTIONS.has(key)) {
+      throw new ValidationError(`"${key}" can't be set as a path option`);
+    }
+
+    let value: string;
+    try {
+      value = decodeURIComponent(rawValue);
+    } catch {
+      throw new ValidationError(`Invalid encoding in path option "${key}"`);
+    }
+
+    options[key] = key === "crop" ? value.replaceAll(":", ",") : value;
+  }
+
+  return options;
+}
+
+/**
+ * Parses a path-style image URL (`/image/<options>/<encoded-source-url>`)
+ * into the same raw params the query form accepts.
+ */
+export function parseImagePath(
+  segment: string,
+  encodedSource: string,
+): Record<string, string> {
+  let url: string;
+  try {
+    url = decodeURIComponent(encodedSource);
+  } catch {
+    throw new ValidationError("Invalid source URL encoding");
+  }
+
+  return { ...parsePathOptions(segment), url };
+}
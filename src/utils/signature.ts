@@ -0,0 +1,139 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import { config } from "../config";
+import { type CacheKeyParams, canonicalizeParams } from "../types";
+import { UnauthorizedError } from "./errors";
+
+// Query parameter names reserved for signing
+export const SIGNATURE_PARAM = "s";
+export const EXPIRY_PARAM = "exp";
+export const DIGEST_PARAM = "digest"; // SHA-256 of the request body (batch)
+
+// Signatures are scoped per endpoint so an /og signature can't be replayed on /image
+export type SignatureScope = "image" | "og" | "batch" | "upload" | "srcset";
+
+export interface SignUrlOptions {
+  secret?: string;
+  scope?: SignatureScope;
+  expiresIn?: number; // Seconds from now
+  expiresAt?: number; // Unix timestamp (seconds)
+  body?: string | Uint8Array; // Request body to bind via a signed digest
+}
+
+export function computeBodyDigest(body: string | Uint8Array): string {
+  return createHash("sha256").update(body).digest("base64url");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const aBuf = Buffer.from(a);
+  const bBuf = Buffer.from(b);
+  return aBuf.length === bBuf.length && timingSafeEqual(aBuf, bBuf);
+}
+
+export function computeSignature(
+  scope: SignatureScope,
+  params: CacheKeyParams,
+  secret: string,
+): string {
+  const { [SIGNATURE_PARAM]: _, ...signed } = params;
+  return createHmac("sha256", secret)
+    .update(`${scope}?${canonicalizeParams(signed)}`)
+    .digest("base64url");
+}
+
+export function verifySignature(
+  scope: SignatureScope,
+  params: CacheKeyParams,
+  secret: string,
+  now: number = Date.now(),
+): void {
+  const provided = params[SIGNATURE_PARAM];
+  if (typeof provided !== "string" || provided.length === 0) {
+    throw new UnauthorizedError("Missing URL signature");
+  }
+
+  if (!safeEqual(provided, computeSignature(scope, params, secret))) {
+    throw new UnauthorizedError("Invalid URL signature");
+  }
+
+  // Expiry is checked after the signature so it can't be tampered with
+  const exp = params[EXPIRY_PARAM];
+  if (exp !== undefined) {
+    const expiresAt = Number(exp);
+    if (!Number.isFinite(expiresAt)) {
+      throw new UnauthorizedError("Invalid URL expiry");
+    }
+    if (now / 1000 > expiresAt) {
+      throw new UnauthorizedError("URL signature has expired");
+    }
+  }
+}
+
+/**
+ * Checks a request body against the `digest` param of its (already
+ * verified) signed URL, so a signature for one body can't be replayed with
+ * another.
+ */
+export function verifyBodyDigest(
+  params: CacheKeyParams,
+  body: Uint8Array,
+): void {
+  const digest = params[DIGEST_PARAM];
+  if (typeof digest !== "string" || digest.length === 0) {
+    throw new UnauthorizedError("Missing request body digest");
+  }
+  if (!safeEqual(digest, computeBodyDigest(body))) {
+    throw new UnauthorizedError(
+      "Request body does not match its signed digest",
+    );
+  }
+}
+
+function inferScope(pathname: string): SignatureScope {
+  const path = pathname.replace(/\/+$/, "");
+  if (path.endsWith("/og")) return "og";
+  if (path.endsWith("/image/batch")) return "batch";
+  if (path.endsWith("/image/srcset")) return "srcset";
+  return "image";
+}
+
+/**
+ * Builds a signed PixelServe URL. The scope is inferred from the base URL
+ * path (`.../og`, `.../image/batch` and `.../image/srcset` sign for those
+ * endpoints, anything else for `/image`). Uploads to `POST /image` need `scope: "upload"`.
+ * Batch requests pass their exact `body`, which is signed as a digest.
+ */
+export function signUrl(
+  baseUrl: string,
+  params: CacheKeyParams,
+  options: SignUrlOptions = {},
+): string {
+  const secret = options.secret ?? config.signingSecret;
+  if (!secret) {
+    throw new Error("A signing secret is required to sign URLs");
+  }
+
+  const url = new URL(baseUrl);
+  const scope = options.scope ?? inferScope(url.pathname);
+
+  const signed: CacheKeyParams = { ...params };
+  if (options.body !== undefined) {
+    signed[DIGEST_PARAM] = computeBodyDigest(options.body);
+  }
+  if (options.expiresAt !== undefined) {
+    signed[EXPIRY_PARAM] = Math.floor(options.expiresAt);
+  } else if (options.expiresIn !== undefined) {
+    signed[EXPIRY_PARAM] = Math.floor(Date.now() / 1000 + options.expiresIn);
+  }
+
+  for (const [key, value] of Object.entries(signed)) {
+    if (value !== undefined) {
+      url.searchParams.set(key, String(value));
+    }
+  }
+  url.searchParams.set(
+    SIGNATURE_PARAM,
+    computeSignature(scope, signed, secret),
+  );
+
+  return url.toString();
+}
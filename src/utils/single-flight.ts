@@ -0,0 +1,24 @@
+/**
+ * Deduplicates concurrent calls by key: while a call for a key is in flight,
+ * later callers get the same promise instead of starting their own work.
+ */
+export function createSingleFlight<T>(): {
+  run: (key: string, fn: () => Promise<T>) => Promise<T>;
+  size: () => number;
+} {
+  const inFlight = new Map<string, Promise<T>>();
+
+  return {
+    run(key, fn) {
+      const existing = inFlight.get(key);
+      if (existing) return existing;
+
+      const promise = fn().finally(() => {
+        inFlight.delete(key);
+      });
+      inFlight.set(key, promise);
+      return promise;
+    },
+    size: () => inFlight.size,
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * Reads a byte stream into a buffer, cancelling it as soon as more than
+ * `limit` bytes arrive. Returns null when the limit was exceeded so callers
+ * can reject without ever buffering the oversized body.
+ */
+export async function readLimitedStream(
+  stream: ReadableStream<Uint8Array> | null,
+  limit: number,
+): Promise<Buffer | null> {
+  if (!stream) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    received += value.byteLength;
+    if (received > limit) {
+      await reader.cancel().catch(() => {});
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks);
+}
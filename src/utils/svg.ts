@@ -0,0 +1,262 @@
+// How far into a document the root element may start
+const SVG_SNIFF_BYTES = 64 * 1024;
+
+// Index of the first non-whitespace character at or after `from`
+function skipWhitespace(text: string, from: number): number {
+  let index = from;
+  while (index < text.length && /\s/.test(text.charAt(index))) index++;
+  return index;
+}
+
+// End of a prolog node (declaration, comment or doctype) starting at `from`,
+// or -1 if there is none. A scan with indexOf rather than one regex, which
+// backtracks exponentially on repeated comments.
+function skipPrologNode(text: string, from: number): number {
+  if (text.startsWith("<?", from)) {
+    const end = text.indexOf("?>", from + 2);
+    return end === -1 ? -1 : end + 2;
+  }
+  if (text.startsWith("<!--", from)) {
+    const end = text.indexOf("-->", from + 4);
+    return end === -1 ? -1 : end + 3;
+  }
+  if (text.startsWith("<!doctype", from)) {
+    const close = text.indexOf(">", from);
+    const subset = text.indexOf("[", from);
+    if (subset === -1 || (close !== -1 && close < subset)) {
+      return close === -1 ? -1 : close + 1;
+    }
+    const subsetEnd = text.indexOf("]", subset);
+    const end = subsetEnd === -1 ? -1 : text.indexOf(">", subsetEnd);
+    return end === -1 ? -1 : end + 1;
+  }
+  return -1;
+}
+
+// Detects SVG from its root element, as it has no magic bytes. Skips a BOM,
+// whitespace, declarations, comments and a doctype ahead of the root.
+export function isSvg(buffer: Uint8Array): boolean {
+  const head = Buffer.from(buffer.subarray(0, SVG_SNIFF_BYTES))
+    .toString("utf-8")
+    .toLowerCase();
+
+  let index = skipWhitespace(head, head.startsWith("\uFEFF") ? 1 : 0);
+  for (;;) {
+    const end = skipPrologNode(head, index);
+    if (end === -1) break;
+    index = skipWhitespace(head, end);
+  }
+
+  return (
+    head.startsWith("<svg", index) && /[\s>/]/.test(head.charAt(index + 4))
+  );
+}
+
+// Rendering elements kept by the sanitizer. Anything else (script,
+// foreignObject, unknown or namespaced elements) is dropped with its content.
+const ALLOWED_ELEMENTS = new Set([
+  "svg",
+  "g",
+  "a",
+  "defs",
+  "symbol",
+  "use",
+  "switch",
+  "title",
+  "desc",
+  "style",
+  "path",
+  "rect",
+  "circle",
+  "ellipse",
+  "line",
+  "polyline",
+  "polygon",
+  "text",
+  "tspan",
+  "textPath",
+  "image",
+  "linearGradient",
+  "radialGradient",
+  "stop",
+  "pattern",
+  "clipPath",
+  "mask",
+  "marker",
+  "filter",
+  "feBlend",
+  "feColorMatrix",
+  "feComponentTransfer",
+  "feComposite",
+  "feConvolveMatrix",
+  "feDiffuseLighting",
+  "feDisplacementMap",
+  "feDistantLight",
+  "feDropShadow",
+  "feFlood",
+  "feFuncA",
+  "feFuncB",
+  "feFuncG",
+  "feFuncR",
+  "feGaussianBlur",
+  "feImage",
+  "feMerge",
+  "feMergeNode",
+  "feMorphology",
+  "feOffset",
+  "fePointLight",
+  "feSpecularLighting",
+  "feSpotLight",
+  "feTile",
+  "feTurbulence",
+]);
+
+// Links may only point inside the document or at inline raster images
+const SAFE_HREF_PATTERN =
+  /^(?:#[\w.:-]+|data:image\/(?:png|jpeg|gif|webp);base64,[A-Za-z0-9+/=\s]*)$/i;
+
+const TAG_PATTERN =
+  /<(\/?)([A-Za-z_][\w:.-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*(\/?)>/y;
+
+const ATTRIBUTE_PATTERN =
+  /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(
+    /&(?:#x([0-9a-f]+)|#(\d+)|(amp|lt|gt|quot|apos));/gi,
+    (match, hex: string, dec: string, named: string) => {
+      if (named) {
+        return XML_ENTITIES[named.toLowerCase()] ?? match;
+      }
+      const code = hex ? parseInt(hex, 16) : parseInt(dec, 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : "";
+    },
+  );
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;");
+}
+
+// Drops @import rules and url() references that leave the document
+function sanitizeCss(css: string): string {
+  // CSS escapes could spell out "url" or "@import" in disguise
+  if (css.includes("\\")) return "";
+  return css
+    .replace(/@import[^;]*;?/gi, "")
+    .replace(/url\(\s*(?!['"]?#)[^)]*\)/gi, "none");
+}
+
+function sanitizeAttributes(source: string): string {
+  let output = "";
+
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    const name = match[1] as string;
+    const lower = name.toLowerCase();
+    const value = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+
+    // Event handlers and base-URL overrides
+    if (lower.startsWith("on") || lower === "xml:base") continue;
+
+    if (lower === "href" || lower.endsWith(":href")) {
+      if (SAFE_HREF_PATTERN.test(value.trim())) {
+        output += ` ${name}="${escapeXml(value.trim())}"`;
+      }
+      continue;
+    }
+
+    output += ` ${name}="${escapeXml(sanitizeCss(value))}"`;
+  }
+
+  return output;
+}
+
+/**
+ * Rebuilds an SVG document from an allowlist of rendering elements. Scripts,
+ * event handlers, foreignObject, doctypes (and their entities), and every
+ * external reference (href, url(), @import) are removed, so rasterizing
+ * the result can't reach the network or the filesystem around the SSRF
+ * checks. Throws nothing: malformed markup is escaped and left for the
+ * renderer to reject.
+ */
+export function sanitizeSvg(input: Uint8Array): Buffer {
+  const svg = Buffer.from(input).toString("utf-8");
+  let output = "";
+  let skipDepth = 0; // > 0 inside a dropped element
+  let inStyle = false;
+  let position = 0;
+
+  const skipPast = (terminator: string) => {
+    const end = svg.indexOf(terminator, position);
+    position = end === -1 ? svg.length : end + terminator.length;
+  };
+
+  while (position < svg.length) {
+    const next = svg.indexOf("<", position);
+    const text = svg.slice(position, next === -1 ? svg.length : next);
+    if (skipDepth === 0 && text) {
+      output += inStyle ? escapeXml(sanitizeCss(decodeEntities(text))) : text;
+    }
+    if (next === -1) break;
+    position = next;
+
+    if (svg.startsWith("<!--", position)) {
+      skipPast("-->");
+    } else if (svg.startsWith("<![CDATA[", position)) {
+      const start = position + "<![CDATA[".length;
+      skipPast("]]>");
+      const content = svg.slice(start, Math.max(start, position - 3));
+      if (skipDepth === 0) {
+        output += escapeXml(inStyle ? sanitizeCss(content) : content);
+      }
+    } else if (svg.startsWith("<!", position)) {
+      // Doctype, including an internal subset that may declare entities
+      const close = svg.indexOf(">", position);
+      const subset = svg.indexOf("[", position);
+      if (subset !== -1 && (close === -1 || subset < close)) {
+        skipPast("]");
+      }
+      skipPast(">");
+    } else if (svg.startsWith("<?", position)) {
+      skipPast("?>");
+    } else {
+      TAG_PATTERN.lastIndex = position;
+      const tag = TAG_PATTERN.exec(svg);
+      if (!tag) {
+        if (skipDepth === 0) output += "&lt;";
+        position++;
+        continue;
+      }
+      position = TAG_PATTERN.lastIndex;
+
+      const [, closing, name = "", attributes = "", selfClosing] = tag;
+      if (closing) {
+        if (skipDepth > 0) {
+          skipDepth--;
+        } else if (ALLOWED_ELEMENTS.has(name)) {
+          output += `</${name}>`;
+          if (name === "style") inStyle = false;
+        }
+      } else if (skipDepth > 0 || !ALLOWED_ELEMENTS.has(name)) {
+        if (!selfClosing) skipDepth++;
+      } else {
+        output += `<${name}${sanitizeAttributes(attributes)}${selfClosing ? "/" : ""}>`;
+        if (name === "style" && !selfClosing) inStyle = true;
+      }
+    }
+  }
+
+  return Buffer.from(output, "utf-8");
+}
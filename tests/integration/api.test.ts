@@ -1,10 +1,23 @@
-import { beforeAll, describe, expect, test } from "bun:test";
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
 import { Elysia } from "elysia";
 import sharp from "sharp";
+import { config } from "../../src/config";
+import { adminRoutes } from "../../src/routes/admin";
 import { healthRoutes } from "../../src/routes/health";
 // Create a test app instance (mimics production setup without starting a server)
 import { imageRoutes } from "../../src/routes/image";
 import { ogRoutes } from "../../src/routes/og";
+import {
+  createCacheEntry,
+  generateCacheKey,
+  getCached,
+  getEntryHeaders,
+  setCache,
+  sourceTag,
+  templateTag,
+} from "../../src/services/cache";
+import { imageParamsToCacheKeyParams } from "../../src/types";
+import { signUrl } from "../../src/utils/signature";
 
 // Create test app
 const createTestApp = () => {
@@ -70,6 +83,9 @@ describe("API Integration Tests", () => {
       expect(json.uptime).toBeGreaterThanOrEqual(0);
       expect(json.version).toBe("1.0.0");
       expect(json.cache).toBeDefined();
+      expect(json.fetch.requests).toBeGreaterThanOrEqual(0);
+      expect(json.fetch.oversized).toBeGreaterThanOrEqual(0);
+      expect(json.formats).toContain("webp");
     });
 
     test("GET /health returns no-cache headers", async () => {
@@ -364,4 +380,889 @@ describe("API Integration Tests", () => {
       expect(json.error).toBeDefined();
     });
   });
+
+  describe("URL Signing", () => {
+    // Route-level error handlers only apply without the test app's global one
+    const signedApp = new Elysia().use(imageRoutes).use(ogRoutes);
+
+    const withSecret = async (fn: () => Promise<void>) => {
+      config.signingSecret = "integration-secret";
+      try {
+        await fn();
+      } finally {
+        config.signingSecret = "";
+      }
+    };
+
+    test("GET /image without signature returns 401", async () => {
+      await withSecret(async () => {
+        const response = await signedApp.handle(
+          new Request("http://localhost/image?url=http://127.0.0.1/a.png"),
+        );
+
+        expect(response.status).toBe(401);
+        const json = await response.json();
+        expect(json.error).toBe("UNAUTHORIZED");
+      });
+    });
+
+    test("GET /image rejects a signature replayed with params split out of the url", async () => {
+      await withSecret(async () => {
+        const signed = new URL(
+          signUrl("http://localhost/image", {
+            url: "https://example.com/a.png?x=1&w=4000",
+          }),
+        );
+        const forged = `http://localhost/image?url=https://example.com/a.png?x=1&w=4000&s=${signed.searchParams.get("s")}`;
+        const response = await signedApp.handle(new Request(forged));
+
+        expect(response.status).toBe(401);
+      });
+    });
+
+    test("GET /og with tampered signature returns 401", async () => {
+      await withSecret(async () => {
+        const signed = signUrl("http://localhost/og", { title: "Hello" });
+        const response = await signedApp.handle(
+          new Request(signed.replace("Hello", "Tampered")),
+        );
+
+        expect(response.status).toBe(401);
+      });
+    });
+
+    test("GET /image with valid signature passes the guard", async () => {
+      await withSecret(async () => {
+        const signed = signUrl("http://localhost/image", {
+          url: "http://127.0.0.1/a.png",
+        });
+        const response = await signedApp.handle(new Request(signed));
+
+        // Guard passes; the request is then rejected by SSRF validation
+        expect(response.status).not.toBe(401);
+        const json = await response.json();
+        expect(json.error).not.toBe("UNAUTHORIZED");
+      });
+    });
+  });
+
+  describe("Conditional Requests", () => {
+    const source = "https://example.com/conditional.png";
+    const cacheKey = generateCacheKey(
+      imageParamsToCacheKeyParams({ url: source, w: 100 }),
+    );
+    const entry = createCacheEntry(Buffer.from("cached-bytes"), "webp");
+    const headers = getEntryHeaders(cacheKey, entry);
+    const originalMode = config.cacheMode;
+
+    beforeAll(async () => {
+      config.cacheMode = "memory";
+      await setCache(cacheKey, entry);
+    });
+
+    afterAll(() => {
+      config.cacheMode = originalMode;
+    });
+
+    test("GET /image returns ETag and Last-Modified", async () => {
+      const response = await app.handle(
+        new Request(`http://localhost/image?url=${source}&w=100`),
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("ETag")).toBe(headers.ETag as string);
+      expect(response.headers.get("Last-Modified")).toBe(
+        headers["Last-Modified"] as string,
+      );
+    });
+
+    test("GET /image with matching If-None-Match returns 304", async () => {
+      const response = await app.handle(
+        new Request(`http://localhost/image?url=${source}&w=100`, {
+          headers: { "If-None-Match": headers.ETag as string },
+        }),
+      );
+
+      expect(response.status).toBe(304);
+      expect(await response.text()).toBe("");
+    });
+
+    test("GET /image with current If-Modified-Since returns 304", async () => {
+      const response = await app.handle(
+        new Request(`http://localhost/image?url=${source}&w=100`, {
+          headers: { "If-Modified-Since": headers["Last-Modified"] as string },
+        }),
+      );
+
+      expect(response.status).toBe(304);
+    });
+  });
+
+  describe("Presets", () => {
+    // Route-level error handlers only apply without the test app's global one
+    const presetApp = new Elysia().use(imageRoutes);
+    const source = "https://example.com/preset.png";
+    const thumbParams = {
+      url: source,
+      w: 400,
+      h: 300,
+      fit: "cover" as const,
+      format: "webp" as const,
+      q: 75,
+    };
+    const originalMode = config.cacheMode;
+
+    beforeAll(async () => {
+      config.cacheMode = "memory";
+      await setCache(
+        generateCacheKey(imageParamsToCacheKeyParams(thumbParams)),
+        createCacheEntry(Buffer.from("thumb"), "webp"),
+      );
+      await setCache(
+        generateCacheKey(
+          imageParamsToCacheKeyParams({ ...thumbParams, w: 200 }),
+        ),
+        createCacheEntry(Buffer.from("thumb-200"), "webp"),
+      );
+    });
+
+    afterAll(() => {
+      config.cacheMode = originalMode;
+    });
+
+    test("GET /image?preset= shares the cache entry of explicit params", async () => {
+      const response = await presetApp.handle(
+        new Request(`http://localhost/image?url=${source}&preset=thumb`),
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe("thumb");
+    });
+
+    test("GET /image/p/:preset applies the preset", async () => {
+      const response = await presetApp.handle(
+        new Request(`http://localhost/image/p/thumb?url=${source}`),
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe("thumb");
+    });
+
+    test("explicit query params override preset values", async () => {
+      const response = await presetApp.handle(
+        new Request(`http://localhost/image/p/thumb?url=${source}&w=200`),
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe("thumb-200");
+    });
+
+    test("unknown preset returns 404", async () => {
+      const response = await presetApp.handle(
+        new Request(`http://localhost/image/p/nonexistent?url=${source}`),
+      );
+
+      expect(response.status).toBe(404);
+    });
+
+    test("strict preset rejects params it doesn't define", async () => {
+      const response = await presetApp.handle(
+        new Request(`http://localhost/image/p/avatar?url=${source}&blur=5`),
+      );
+
+      expect(response.status).toBe(400);
+      const json = await response.json();
+      expect(json.message).toContain("blur");
+    });
+  });
+
+  describe("Path-Based URLs", () => {
+    const pathApp = new Elysia().use(imageRoutes);
+    const source = "https://example.com/path.png";
+    const encoded = encodeURIComponent(source);
+    const originalMode = config.cacheMode;
+
+    beforeAll(async () => {
+      config.cacheMode = "memory";
+      await setCache(
+        generateCacheKey(
+          imageParamsToCacheKeyParams({
+            url: source,
+            w: 400,
+            h: 300,
+            fit: "cover",
+            format: "webp",
+          }),
+        ),
+        createCacheEntry(Buffer.from("path-form"), "webp"),
+      );
+    });
+
+    afterAll(() => {
+      config.cacheMode = originalMode;
+    });
+
+    test("GET /image/<options>/<url> shares the query form's cache entry", async () => {
+      const response = await pathApp.handle(
+        new Request(
+          `http://localhost/image/w_400,h_300,fit_cover,f_webp/${encoded}`,
+        ),
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe("path-form");
+    });
+
+    test("path options are validated like query params", async () => {
+      const response = await pathApp.handle(
+        new Request(`http://localhost/image/w_99999/${encoded}`),
+      );
+      const queryResponse = await pathApp.handle(
+        new Request(`http://localhost/image?url=${encoded}&w=99999`),
+      );
+
+      expect(response.status).toBeGreaterThanOrEqual(400);
+      expect(response.status).toBe(queryResponse.status);
+    });
+
+    test("path options can reference a preset", async () => {
+      const response = await pathApp.handle(
+        new Request(`http://localhost/image/preset_nonexistent/${encoded}`),
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("Srcset Endpoint", () => {
+    const srcsetApp = new Elysia().use(imageRoutes);
+    const source = "https://example.com/srcset.png";
+    const originalMode = config.cacheMode;
+
+    beforeAll(async () => {
+      config.cacheMode = "memory";
+      for (const w of [320, 640]) {
+        await setCache(
+          generateCacheKey(
+            imageParamsToCacheKeyParams({ url: source, w, format: "webp" }),
+          ),
+          createCacheEntry(Buffer.from(`srcset-${w}`), "webp"),
+        );
+      }
+    });
+
+    afterAll(() => {
+      config.cacheMode = originalMode;
+    });
+
+    test("GET /image/srcset returns srcset, sizes and variants", async () => {
+      const response = await srcsetApp.handle(
+        new Request(
+          `http://localhost/image/srcset?url=${source}&widths=640,320&format=webp&sizes=50vw`,
+        ),
+      );
+
+      expect(response.status).toBe(200);
+      const json = await response.json();
+      expect(json.sizes).toBe("50vw");
+      expect(json.variants).toHaveLength(2);
+      expect(json.variants[0].width).toBe(320);
+      expect(json.variants[0].url).toContain("/image?");
+      expect(json.variants[0].url).toContain("w=320");
+      expect(json.variants[0].cacheKey).toMatch(/^[a-f0-9]{64}$/);
+      expect(json.srcset).toBe(
+        `${json.variants[0].url} 320w, ${json.variants[1].url} 640w`,
+      );
+    });
+
+    test("warm reports cached variants", async () => {
+      const response = await srcsetApp.handle(
+        new Request(
+          `http://localhost/image/srcset?url=${source}&widths=320,640&format=webp&warm=true`,
+        ),
+      );
+
+      expect(response.status).toBe(200);
+      const json = await response.json();
+      expect(json.variants.map((v: { cached: boolean }) => v.cached)).toEqual([
+        true,
+        true,
+      ]);
+    });
+
+    test("variant URLs are signed when signing is enabled", async () => {
+      config.signingSecret = "srcset-secret";
+      try {
+        const request = signUrl("http://localhost/image/srcset", {
+          url: source,
+          widths: "320",
+        });
+        const response = await srcsetApp.handle(new Request(request));
+
+        expect(response.status).toBe(200);
+        const json = await response.json();
+        const variantUrl = new URL(json.variants[0].url);
+        expect(variantUrl.searchParams.get("s")).toBeTruthy();
+
+        const variantResponse = await srcsetApp.handle(
+          new Request(json.variants[0].url),
+        );
+        expect(variantResponse.status).not.toBe(401);
+      } finally {
+        config.signingSecret = "";
+      }
+    });
+
+    test("requires the srcset scope and keeps the request's expiry", async () => {
+      config.signingSecret = "srcset-secret";
+      try {
+        // A signed /image URL can't be replayed to mint other variants
+        const image = new URL(
+          signUrl("http://localhost/image", { url: source, w: 400 }),
+        );
+        const replayed = await srcsetApp.handle(
+          new Request(`http://localhost/image/srcset${image.search}`),
+        );
+        expect(replayed.status).toBe(401);
+
+        const exp = Math.floor(Date.now() / 1000) + 60;
+        const request = signUrl(
+          "http://localhost/image/srcset",
+          { url: source, widths: "320" },
+          { expiresAt: exp },
+        );
+        const response = await srcsetApp.handle(new Request(request));
+
+        expect(response.status).toBe(200);
+        const json = await response.json();
+        const variantUrl = new URL(json.variants[0].url);
+        expect(variantUrl.searchParams.get("exp")).toBe(String(exp));
+        const variantResponse = await srcsetApp.handle(
+          new Request(json.variants[0].url),
+        );
+        expect(variantResponse.status).not.toBe(401);
+      } finally {
+        config.signingSecret = "";
+      }
+    });
+  });
+
+  describe("Direct Uploads", () => {
+    const uploadApp = new Elysia().use(imageRoutes);
+    const originalMode = config.cacheMode;
+    let upload: Buffer;
+
+    beforeAll(async () => {
+      config.cacheMode = "memory";
+      upload = await sharp({
+        create: {
+          width: 400,
+          height: 300,
+          channels: 3,
+          background: { r: 255, g: 128, b: 0 },
+        },
+      })
+        .png()
+        .toBuffer();
+    });
+
+    afterAll(() => {
+      config.cacheMode = originalMode;
+    });
+
+    test("POST /image transforms a raw image body", async () => {
+      const response = await uploadApp.handle(
+        new Request("http://localhost/image?w=100&format=jpeg", {
+          method: "POST",
+          headers: { "Content-Type": "image/png" },
+          body: upload,
+        }),
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toBe("image/jpeg");
+      const metadata = await sharp(
+        Buffer.from(await response.arrayBuffer()),
+      ).metadata();
+      expect(metadata.width).toBe(100);
+    });
+
+    test("POST /image accepts a multipart file field", async () => {
+      const form = new FormData();
+      form.append("file", new Blob([upload]), "upload.png");
+
+      const response = await uploadApp.handle(
+        new Request("http://localhost/image?w=50", {
+          method: "POST",
+          body: form,
+        }),
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toBe("image/webp");
+      expect(response.headers.get("etag")).toBeTruthy();
+    });
+
+    test("POST /image applies format-specific encoder options", async () => {
+      const response = await uploadApp.handle(
+        new Request(
+          "http://localhost/image?format=png&colors=16&dither=0&progressive=true",
+          {
+            method: "POST",
+            headers: { "Content-Type": "image/png" },
+            body: upload,
+          },
+        ),
+      );
+
+      expect(response.status).toBe(200);
+      const metadata = await sharp(
+        Buffer.from(await response.arrayBuffer()),
+      ).metadata();
+      expect(metadata.isPalette).toBe(true);
+      expect(metadata.isProgressive).toBe(true);
+    });
+
+    test("serves sanitized SVG uploads as SVG or rasterized", async () => {
+      const svg = Buffer.from(
+        '<svg xmlns="http://www.w3.org/2000/svg" width="40" height="20"><script>fetch("http://127.0.0.1/")</script><rect width="40" height="20" fill="blue"/></svg>',
+      );
+      const post = (query: string) =>
+        uploadApp.handle(
+          new Request(`http://localhost/image?${query}`, {
+            method: "POST",
+            headers: { "Content-Type": "image/svg+xml" },
+            body: svg,
+          }),
+        );
+
+      const passThrough = await post("format=svg");
+      expect(passThrough.status).toBe(200);
+      expect(passThrough.headers.get("content-type")).toBe("image/svg+xml");
+      expect(passThrough.headers.get("content-security-policy")).toContain(
+        "default-src 'none'",
+      );
+      const body = await passThrough.text();
+      expect(body).toContain("<rect");
+      expect(body).not.toContain("script");
+
+      const raster = await post("format=png&density=144");
+      expect(raster.status).toBe(200);
+      const metadata = await sharp(
+        Buffer.from(await raster.arrayBuffer()),
+      ).metadata();
+      expect(metadata.format).toBe("png");
+      expect(metadata.width).toBe(80);
+    });
+
+    test("sizes uploads from dpr and client hints", async () => {
+      const post = (query: string, headers: Record<string, string> = {}) =>
+        uploadApp.handle(
+          new Request(`http://localhost/image?${query}`, {
+            method: "POST",
+            headers: { "Content-Type": "image/png", ...headers },
+            body: upload,
+          }),
+        );
+      const width = async (response: Response) =>
+        (await sharp(Buffer.from(await response.arrayBuffer())).metadata())
+          .width;
+      const hints = { "Sec-CH-DPR": "2", "Sec-CH-Width": "180" };
+
+      expect(await width(await post("w=100&dpr=2&format=png"))).toBe(200);
+
+      // Hints are ignored unless CLIENT_HINTS is on
+      const ignored = await post("format=png", hints);
+      expect(ignored.headers.get("accept-ch")).toBeNull();
+      expect(await width(ignored)).toBe(400);
+
+      const originalClientHints = config.clientHints;
+      config.clientHints = true;
+      try {
+        const hinted = await post("format=png", hints);
+        expect(hinted.headers.get("accept-ch")).toContain("Sec-CH-DPR");
+        expect(hinted.headers.get("vary")).toContain("Sec-CH-Width");
+        // 90 CSS pixels snap up to 100, rendered at 2x
+        expect(await width(hinted)).toBe(200);
+      } finally {
+        config.clientHints = originalClientHints;
+      }
+    });
+
+    test("validates encoder options", async () => {
+      for (const query of [
+        "format=avif&effort=10",
+        "format=jpeg&chroma_subsampling=4:2:2",
+        "format=png&colors=1",
+        "format=gif&dither=2",
+        "format=avif&bitdepth=9",
+      ]) {
+        const response = await uploadApp.handle(
+          new Request(`http://localhost/image?${query}`, {
+            method: "POST",
+            headers: { "Content-Type": "image/png" },
+            body: upload,
+          }),
+        );
+        expect(response.status).toBeGreaterThanOrEqual(400);
+      }
+
+      const response = await uploadApp.handle(
+        new Request("http://localhost/image?format=avif&bitdepth=8&effort=2", {
+          method: "POST",
+          headers: { "Content-Type": "image/png" },
+          body: upload,
+        }),
+      );
+      expect(response.status).toBe(200);
+    });
+
+    test("rejects bodies that aren't images", async () => {
+      const response = await uploadApp.handle(
+        new Request("http://localhost/image?w=100", {
+          method: "POST",
+          headers: { "Content-Type": "image/png" },
+          body: "<html><body onload=alert(1)></body></html>",
+        }),
+      );
+
+      expect(response.status).toBe(415);
+      expect((await response.json()).error).toBe("UNSUPPORTED_FORMAT");
+    });
+
+    test("rejects uploads over the size limit", async () => {
+      const originalMaxImageSize = config.maxImageSize;
+      config.maxImageSize = 64;
+      try {
+        const response = await uploadApp.handle(
+          new Request("http://localhost/image?w=100", {
+            method: "POST",
+            body: upload,
+          }),
+        );
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).message).toContain(
+          "exceeds maximum size",
+        );
+      } finally {
+        config.maxImageSize = originalMaxImageSize;
+      }
+    });
+
+    test("requires an upload-scoped signature when signing is enabled", async () => {
+      config.signingSecret = "upload-secret";
+      try {
+        const imageSigned = signUrl("http://localhost/image", { w: 100 });
+        const rejected = await uploadApp.handle(
+          new Request(imageSigned, { method: "POST", body: upload }),
+        );
+        expect(rejected.status).toBe(401);
+
+        const uploadSigned = signUrl(
+          "http://localhost/image",
+          { w: 100 },
+          { scope: "upload" },
+        );
+        const accepted = await uploadApp.handle(
+          new Request(uploadSigned, { method: "POST", body: upload }),
+        );
+        expect(accepted.status).toBe(200);
+      } finally {
+        config.signingSecret = "";
+      }
+    });
+  });
+
+  describe("Batch Endpoint", () => {
+    const batchApp = new Elysia().use(imageRoutes);
+    const source = "https://example.com/batch.png";
+    const originalMode = config.cacheMode;
+
+    const postJson = (body: unknown) =>
+      batchApp.handle(
+        new Request("http://localhost/image/batch", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        }),
+      );
+
+    beforeAll(async () => {
+      config.cacheMode = "memory";
+      for (const w of [100, 200]) {
+        await setCache(
+          generateCacheKey(
+            imageParamsToCacheKeyParams({ url: source, w, format: "webp" }),
+          ),
+          createCacheEntry(Buffer.from(`batch-${w}`), "webp", { width: w }),
+        );
+      }
+    });
+
+    afterAll(() => {
+      config.cacheMode = originalMode;
+    });
+
+    test("returns a JSON manifest for a URL source", async () => {
+      const response = await postJson({
+        url: source,
+        variants: [
+          { w: 100, format: "webp" },
+          { w: "200", format: "webp" },
+        ],
+      });
+
+      expect(response.status).toBe(200);
+      const json = await response.json();
+      expect(json.source).toEqual({ url: source });
+      expect(json.variants).toHaveLength(2);
+      expect(json.variants[0]).toMatchObject({
+        index: 0,
+        format: "webp",
+        width: 100,
+        bytes: "batch-100".length,
+        cached: true,
+      });
+      expect(json.variants[1].url).toContain("w=200");
+      expect(json.variants[1].etag).toMatch(/^"[a-f0-9]{16}-[a-f0-9]{16}"$/);
+    });
+
+    test("requires the body to match the signed digest", async () => {
+      const body = JSON.stringify({
+        url: source,
+        variants: [{ w: 100, format: "webp" }],
+      });
+      const post = (url: string, requestBody = body) =>
+        batchApp.handle(
+          new Request(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: requestBody,
+          }),
+        );
+
+      config.signingSecret = "batch-secret";
+      try {
+        const signed = signUrl("http://localhost/image/batch", {}, { body });
+        expect((await post(signed)).status).toBe(200);
+
+        // A signature without a digest, or another body, is no bearer token
+        const bare = signUrl("http://localhost/image/batch", {});
+        expect((await post(bare)).status).toBe(401);
+
+        const swapped = JSON.stringify({
+          url: source,
+          variants: [{ w: 200, format: "webp" }],
+        });
+        expect((await post(signed, swapped)).status).toBe(401);
+      } finally {
+        config.signingSecret = "";
+      }
+    });
+
+    test("carries the request's expiry into signed variant URLs", async () => {
+      const body = JSON.stringify({
+        url: source,
+        variants: [{ w: 100, format: "webp" }],
+      });
+      const exp = Math.floor(Date.now() / 1000) + 60;
+
+      config.signingSecret = "batch-secret";
+      try {
+        const signed = signUrl(
+          "http://localhost/image/batch",
+          {},
+          { body, expiresAt: exp },
+        );
+        const response = await batchApp.handle(
+          new Request(signed, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body,
+          }),
+        );
+
+        expect(response.status).toBe(200);
+        const json = await response.json();
+        const variantUrl = new URL(json.variants[0].url);
+        expect(variantUrl.searchParams.get("exp")).toBe(String(exp));
+      } finally {
+        config.signingSecret = "";
+      }
+    });
+
+    test("returns multipart output on request", async () => {
+      const response = await postJson({
+        url: source,
+        variants: [{ w: 100, format: "webp" }],
+        output: "multipart",
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toStartWith(
+        "multipart/mixed; boundary=",
+      );
+      const body = await response.text();
+      expect(body).toContain("Content-Type: image/webp");
+      expect(body).toContain('filename="0.webp"');
+      expect(body).toContain("batch-100");
+    });
+
+    test("processes an uploaded image into each variant", async () => {
+      const upload = await sharp({
+        create: {
+          width: 400,
+          height: 300,
+          channels: 3,
+          background: { r: 0, g: 128, b: 255 },
+        },
+      })
+        .png()
+        .toBuffer();
+      const form = new FormData();
+      form.append("file", new Blob([upload], { type: "image/png" }));
+      form.append(
+        "variants",
+        JSON.stringify([{ w: 100, format: "jpeg" }, { w: 200 }]),
+      );
+      form.append("output", "json");
+
+      const response = await batchApp.handle(
+        new Request("http://localhost/image/batch", {
+          method: "POST",
+          body: form,
+        }),
+      );
+
+      expect(response.status).toBe(200);
+      const json = await response.json();
+      expect(json.source.upload).toMatch(/^[a-f0-9]{64}$/);
+      expect(json.variants[0]).toMatchObject({ format: "jpeg", width: 100 });
+      expect(json.variants[1]).toMatchObject({ format: "webp", width: 200 });
+      expect(json.variants[0].url).toBeUndefined();
+    });
+
+    test("rejects invalid variants", async () => {
+      const response = await postJson({
+        url: source,
+        variants: [{ w: 100 }, { w: "wide" }],
+      });
+
+      expect(response.status).toBe(400);
+      const json = await response.json();
+      expect(json.message).toContain("variants[1]");
+    });
+
+    test("rejects too many variants", async () => {
+      const response = await postJson({
+        url: source,
+        variants: Array.from({ length: 11 }, (_, i) => ({ w: 100 + i })),
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    test("requires a source", async () => {
+      const response = await postJson({ variants: [{ w: 100 }] });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("Admin API", () => {
+    const adminApp = new Elysia().use(adminRoutes);
+    const originalMode = config.cacheMode;
+    const originalToken = config.adminToken;
+    const source = "https://example.com/admin.png";
+    const keys = {
+      small: generateCacheKey({ url: source, w: 100 }),
+      large: generateCacheKey({ url: source, w: 200 }),
+      other: generateCacheKey({ url: "https://example.com/other.png" }),
+      og: generateCacheKey({ type: "og", template: "gradient" }),
+    };
+
+    const purge = (path: string, token = "admin-secret") =>
+      adminApp.handle(
+        new Request(`http://localhost/admin${path}`, {
+          method: "DELETE",
+          headers: { Authorization: `Bearer ${token}` },
+        }),
+      );
+
+    beforeAll(() => {
+      config.cacheMode = "memory";
+      config.adminToken = "admin-secret";
+    });
+
+    afterAll(() => {
+      config.cacheMode = originalMode;
+      config.adminToken = originalToken;
+    });
+
+    const seed = async () => {
+      const entry = createCacheEntry(Buffer.from("admin"), "webp");
+      await setCache(keys.small, entry, [sourceTag(source)]);
+      await setCache(keys.large, entry, [sourceTag(source)]);
+      await setCache(keys.other, entry, [
+        sourceTag("https://example.com/other.png"),
+      ]);
+      await setCache(keys.og, entry, [templateTag("gradient")]);
+    };
+
+    test("is hidden without ADMIN_TOKEN", async () => {
+      config.adminToken = "";
+      try {
+        expect((await purge("/cache")).status).toBe(404);
+      } finally {
+        config.adminToken = "admin-secret";
+      }
+    });
+
+    test("rejects missing or wrong tokens", async () => {
+      const missing = await adminApp.handle(
+        new Request("http://localhost/admin/cache", { method: "DELETE" }),
+      );
+      expect(missing.status).toBe(401);
+      expect((await purge("/cache", "wrong")).status).toBe(401);
+    });
+
+    test("purges every variant of a source URL", async () => {
+      await seed();
+      const response = await purge(
+        `/cache/sources?url=${encodeURIComponent(source)}`,
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ purged: 2 });
+      expect(await getCached(keys.small)).toBeNull();
+      expect(await getCached(keys.large)).toBeNull();
+      expect(await getCached(keys.other)).not.toBeNull();
+    });
+
+    test("purges by cache key and by template", async () => {
+      await seed();
+
+      expect((await purge(`/cache/keys/${keys.small}`)).status).toBe(200);
+      expect(await getCached(keys.small)).toBeNull();
+      expect(await getCached(keys.large)).not.toBeNull();
+
+      const response = await purge("/cache/templates/gradient");
+      expect(await response.json()).toEqual({ purged: 1 });
+      expect(await getCached(keys.og)).toBeNull();
+    });
+
+    test("rejects malformed cache keys", async () => {
+      expect((await purge("/cache/keys/not-a-key")).status).toBe(400);
+    });
+
+    test("flushes the whole cache", async () => {
+      await seed();
+      const response = await purge("/cache");
+
+      expect(await response.json()).toEqual({ flushed: true });
+      expect(await getCached(keys.other)).toBeNull();
+      expect(await getCached(keys.og)).toBeNull();
+    });
+  });
 });
@@ -1,5 +1,33 @@
-import { describe, expect, test } from "bun:test";
-import { generateCacheKey, getCacheHeaders } from "../../src/services/cache";
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createHash } from "node:crypto";
+import { mkdtemp, readFile, rm, stat, unlink, utimes } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { type CacheMode, config } from "../../src/config";
+import { SOURCE_CACHE_DIR, TAG_INDEX_DIR } from "../../src/constants";
+import {
+  cleanupCache,
+  createCacheEntry,
+  flushCache,
+  generateCacheKey,
+  generateETag,
+  getCached,
+  getCachedSource,
+  getCacheHeaders,
+  getCacheStats,
+  getEntryHeaders,
+  getOrRender,
+  getRenderStats,
+  initDiskCache,
+  initS3Cache,
+  purgeSource,
+  purgeTag,
+  renderOnce,
+  setCache,
+  setCachedSource,
+  sourceTag,
+  templateTag,
+} from "../../src/services/cache";
 
 describe("Cache Service", () => {
   describe("generateCacheKey", () => {
@@ -98,6 +126,21 @@ describe("Cache Service", () => {
       expect(headers["Content-Type"]).toBe("image/gif");
     });
 
+    test("returns Content-Types for archival and HEIF formats", () => {
+      expect(getCacheHeaders("tiff")["Content-Type"]).toBe("image/tiff");
+      expect(getCacheHeaders("heic")["Content-Type"]).toBe("image/heic");
+      expect(getCacheHeaders("jxl")["Content-Type"]).toBe("image/jxl");
+    });
+
+    test("locks down SVG output with a Content-Security-Policy", () => {
+      const headers = getCacheHeaders("svg");
+      expect(headers["Content-Type"]).toBe("image/svg+xml");
+      expect(headers["Content-Security-Policy"]).toContain(
+        "default-src 'none'",
+      );
+      expect(getCacheHeaders("png")["Content-Security-Policy"]).toBeUndefined();
+    });
+
     test("includes Cache-Control header", () => {
       const headers = getCacheHeaders("webp");
       expect(headers["Cache-Control"]).toContain("public");
@@ -105,6 +148,43 @@ describe("Cache Service", () => {
       expect(headers["Cache-Control"]).toContain("immutable");
     });
 
+    test("advertises client hints when CLIENT_HINTS is set", () => {
+      const original = config.clientHints;
+      try {
+        config.clientHints = false;
+        expect(getCacheHeaders("webp").Vary).toBe("Accept");
+        expect(getCacheHeaders("webp")["Accept-CH"]).toBeUndefined();
+
+        config.clientHints = true;
+        const headers = getCacheHeaders("webp");
+        expect(headers.Vary).toBe(
+          "Accept, Sec-CH-DPR, Sec-CH-Width, Sec-CH-Viewport-Width",
+        );
+        expect(headers["Accept-CH"]).toBe(
+          "Sec-CH-DPR, Sec-CH-Width, Sec-CH-Viewport-Width",
+        );
+      } finally {
+        config.clientHints = original;
+      }
+    });
+
+    test("advertises the stale window when CACHE_STALE_TTL is set", () => {
+      const original = config.cacheStaleTTL;
+      try {
+        config.cacheStaleTTL = 0;
+        expect(getCacheHeaders("webp")["Cache-Control"]).not.toContain(
+          "stale-",
+        );
+
+        config.cacheStaleTTL = 600;
+        const cacheControl = getCacheHeaders("webp")["Cache-Control"];
+        expect(cacheControl).toContain("stale-while-revalidate=600");
+        expect(cacheControl).toContain("stale-if-error=600");
+      } finally {
+        config.cacheStaleTTL = original;
+      }
+    });
+
     test("includes Vary header", () => {
       const headers = getCacheHeaders("webp");
       expect(headers.Vary).toBe("Accept");
@@ -117,4 +197,626 @@ describe("Cache Service", () => {
       expect(Object.keys(headers)).toContain("Vary");
     });
   });
+
+  describe("getEntryHeaders", () => {
+    const key = generateCacheKey({ url: "https://example.com/image.png" });
+    const entry = createCacheEntry(Buffer.from("bytes"), "avif");
+
+    test("uses the entry format for Content-Type", () => {
+      const headers = getEntryHeaders(key, entry);
+      expect(headers["Content-Type"]).toBe("image/avif");
+    });
+
+    test("includes a strong ETag", () => {
+      const headers = getEntryHeaders(key, entry);
+      expect(headers.ETag).toBe(generateETag(key, entry));
+      expect(headers.ETag).toMatch(/^"[a-f0-9]{16}-[a-f0-9]{16}"$/);
+    });
+
+    test("ETag changes with content", () => {
+      const other = createCacheEntry(Buffer.from("other"), "avif");
+      expect(generateETag(key, entry)).not.toBe(generateETag(key, other));
+    });
+
+    test("Last-Modified comes from the entry creation time", () => {
+      const headers = getEntryHeaders(key, entry);
+      expect(headers["Last-Modified"]).toBe(
+        new Date(entry.createdAt).toUTCString(),
+      );
+    });
+  });
+
+  describe("cache entries", () => {
+    const originalMode = config.cacheMode;
+    const originalDir = config.cacheDir;
+    let tempDir: string;
+
+    beforeAll(async () => {
+      tempDir = await mkdtemp(join(tmpdir(), "pixelserve-cache-"));
+      config.cacheDir = tempDir;
+    });
+
+    afterAll(async () => {
+      config.cacheMode = originalMode;
+      config.cacheDir = originalDir;
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    test("createCacheEntry computes content hash and timestamp", () => {
+      const data = Buffer.from("image-bytes");
+      const entry = createCacheEntry(data, "avif", { width: 10, height: 20 });
+
+      expect(entry.format).toBe("avif");
+      expect(entry.width).toBe(10);
+      expect(entry.height).toBe(20);
+      expect(entry.hash).toMatch(/^[a-f0-9]{64}$/);
+      expect(entry.createdAt).toBeLessThanOrEqual(Date.now());
+    });
+
+    for (const mode of ["memory", "disk", "hybrid"] as CacheMode[]) {
+      test(`${mode} mode round-trips entry metadata`, async () => {
+        config.cacheMode = mode;
+        const key = generateCacheKey({ test: mode });
+        const entry = createCacheEntry(Buffer.from([1, 2, 3]), "png", {
+          width: 3,
+          height: 1,
+        });
+
+        await setCache(key, entry);
+        const cached = await getCached(key);
+
+        expect(cached).not.toBeNull();
+        expect(cached?.format).toBe("png");
+        expect(cached?.width).toBe(3);
+        expect(cached?.height).toBe(1);
+        expect(cached?.hash).toBe(entry.hash);
+        expect(cached?.createdAt).toBe(entry.createdAt);
+        expect(Buffer.from(cached?.data ?? [])).toEqual(Buffer.from([1, 2, 3]));
+      });
+    }
+
+    for (const mode of ["memory", "disk", "hybrid"] as CacheMode[]) {
+      test(`${mode} mode round-trips source entries`, async () => {
+        config.cacheMode = mode;
+        const url = `https://example.com/${mode}.png`;
+        await setCachedSource(url, {
+          data: Buffer.from([4, 5, 6]),
+          etag: '"abc"',
+          lastModified: "Wed, 21 Oct 2026 07:28:00 GMT",
+          createdAt: Date.now(),
+        });
+
+        const cached = await getCachedSource(url);
+        expect(cached?.etag).toBe('"abc"');
+        expect(cached?.lastModified).toBe("Wed, 21 Oct 2026 07:28:00 GMT");
+        expect(Buffer.from(cached?.data ?? [])).toEqual(Buffer.from([4, 5, 6]));
+        expect(await getCachedSource(`${url}?other`)).toBeNull();
+      });
+    }
+
+    test("cleanup trims disk sources to their size budget", async () => {
+      config.cacheMode = "disk";
+      const originalBudget = config.maxSourceCacheSize;
+      try {
+        for (const name of ["old", "new"]) {
+          await setCachedSource(`https://example.com/budget-${name}.png`, {
+            data: Buffer.alloc(100),
+            createdAt: Date.now(),
+          });
+          await Bun.sleep(10);
+        }
+        config.maxSourceCacheSize = 150;
+
+        expect(await cleanupCache()).toBeGreaterThanOrEqual(1);
+        expect(
+          await getCachedSource("https://example.com/budget-old.png"),
+        ).toBeNull();
+        expect(
+          await getCachedSource("https://example.com/budget-new.png"),
+        ).not.toBeNull();
+      } finally {
+        config.maxSourceCacheSize = originalBudget;
+      }
+    });
+
+    test("disk source writes evict least recently used sources over budget", async () => {
+      config.cacheMode = "disk";
+      const originalBudget = config.maxSourceCacheSize;
+      try {
+        await flushCache();
+        await setCachedSource("https://example.com/write-old.png", {
+          data: Buffer.alloc(100),
+          createdAt: Date.now(),
+        });
+        await setCachedSource("https://example.com/write-read.png", {
+          data: Buffer.alloc(100),
+          createdAt: Date.now(),
+        });
+        await getCachedSource("https://example.com/write-old.png");
+
+        // Two entries fit; the third write evicts the one read least recently
+        const key = createHash("sha256")
+          .update("source:https://example.com/write-old.png")
+          .digest("hex");
+        const { size } = await stat(
+          join(config.cacheDir, SOURCE_CACHE_DIR, key.slice(0, 2), key),
+        );
+        config.maxSourceCacheSize = size * 2 + size / 2;
+        await setCachedSource("https://example.com/write-new.png", {
+          data: Buffer.alloc(100),
+          createdAt: Date.now(),
+        });
+
+        expect(
+          await getCachedSource("https://example.com/write-read.png"),
+        ).toBeNull();
+        expect(
+          await getCachedSource("https://example.com/write-old.png"),
+        ).not.toBeNull();
+        expect(
+          await getCachedSource("https://example.com/write-new.png"),
+        ).not.toBeNull();
+      } finally {
+        config.maxSourceCacheSize = originalBudget;
+      }
+    });
+
+    test("memory mode evicts by total bytes and skips oversized entries", async () => {
+      config.cacheMode = "memory";
+      const originalBytes = config.maxMemoryCacheBytes;
+      const originalEntryBytes = config.maxMemoryCacheEntryBytes;
+      const keys = ["a", "b", "c", "huge"].map((name) =>
+        generateCacheKey({ test: `memory-bytes-${name}` }),
+      );
+      try {
+        config.maxMemoryCacheBytes = 2500;
+        config.maxMemoryCacheEntryBytes = 1500;
+        for (const key of keys.slice(0, 3)) {
+          await setCache(key, createCacheEntry(Buffer.alloc(1000), "png"));
+        }
+        await setCache(keys[3], createCacheEntry(Buffer.alloc(2000), "png"));
+
+        const statsBefore = getCacheStats();
+        expect(statsBefore.bytes).toBe(2000);
+        expect(await getCached(keys[0])).toBeNull();
+        expect(await getCached(keys[1])).not.toBeNull();
+        expect(await getCached(keys[2])).not.toBeNull();
+        expect(await getCached(keys[3])).toBeNull();
+
+        const statsAfter = getCacheStats();
+        expect(statsAfter.items).toBe(2);
+        expect((statsAfter.hits ?? 0) - (statsBefore.hits ?? 0)).toBe(2);
+        expect((statsAfter.misses ?? 0) - (statsBefore.misses ?? 0)).toBe(2);
+      } finally {
+        config.maxMemoryCacheBytes = originalBytes;
+        config.maxMemoryCacheEntryBytes = originalEntryBytes;
+      }
+    });
+
+    test("disk mode evicts least recently used entries over maxCacheSize", async () => {
+      config.cacheMode = "disk";
+      const originalMax = config.maxCacheSize;
+      const keys = ["a", "b", "c"].map((name) =>
+        generateCacheKey({ test: `lru-${name}` }),
+      );
+      try {
+        config.maxCacheSize = 2500;
+        await setCache(keys[0], createCacheEntry(Buffer.alloc(1000), "png"));
+        await setCache(keys[1], createCacheEntry(Buffer.alloc(1000), "png"));
+        // Reading "a" makes "b" the least recently used
+        expect(await getCached(keys[0])).not.toBeNull();
+        await setCache(keys[2], createCacheEntry(Buffer.alloc(1000), "png"));
+
+        expect(await getCached(keys[0])).not.toBeNull();
+        expect(await getCached(keys[1])).toBeNull();
+        expect(await getCached(keys[2])).not.toBeNull();
+      } finally {
+        config.maxCacheSize = originalMax;
+      }
+    });
+
+    test("initDiskCache rebuilds the index from existing files", async () => {
+      config.cacheMode = "disk";
+      const originalMax = config.maxCacheSize;
+      const oldKey = generateCacheKey({ test: "rebuild-old" });
+      const newKey = generateCacheKey({ test: "rebuild-new" });
+      // A fresh directory so earlier tests' files don't compete for the budget
+      config.cacheDir = join(tempDir, "rebuild");
+      try {
+        await setCache(oldKey, createCacheEntry(Buffer.alloc(1000), "png"));
+        await setCache(newKey, createCacheEntry(Buffer.alloc(1000), "png"));
+        const hourAgo = new Date(Date.now() - 3600 * 1000);
+        const oldPath = join(config.cacheDir, oldKey.substring(0, 2), oldKey);
+        await utimes(oldPath, hourAgo, new Date());
+
+        config.maxCacheSize = 1500;
+        await initDiskCache();
+
+        expect(await Bun.file(oldPath).exists()).toBe(false);
+        expect(await getCached(newKey)).not.toBeNull();
+      } finally {
+        config.maxCacheSize = originalMax;
+        config.cacheDir = tempDir;
+      }
+    });
+
+    test("cache tiers write through and promote hits into faster tiers", async () => {
+      const writeKey = generateCacheKey({ test: "tiers-write" });
+      const promoteKey = generateCacheKey({ test: "tiers-promote" });
+      const entry = createCacheEntry(Buffer.from([1, 2]), "png");
+      try {
+        config.cacheTiers = ["memory", "disk"];
+        await setCache(writeKey, entry);
+        expect(getCacheStats().tiers).toEqual(["memory", "disk"]);
+
+        config.cacheTiers = ["disk"];
+        expect(await getCached(writeKey)).not.toBeNull();
+        await setCache(promoteKey, entry);
+
+        config.cacheTiers = ["memory"];
+        expect(await getCached(writeKey)).not.toBeNull();
+        expect(await getCached(promoteKey)).toBeNull();
+
+        config.cacheTiers = ["memory", "disk"];
+        expect(await getCached(promoteKey)).not.toBeNull();
+
+        config.cacheTiers = ["memory"];
+        expect(await getCached(promoteKey)).not.toBeNull();
+      } finally {
+        config.cacheTiers = [];
+      }
+    });
+
+    test("hybrid mode purges tagged outputs from both tiers", async () => {
+      config.cacheMode = "hybrid";
+      const url = "https://example.com/purge.png";
+      const keys = [100, 200].map((w) => generateCacheKey({ url, w }));
+      for (const key of keys) {
+        await setCache(key, createCacheEntry(Buffer.from([1]), "png"), [
+          sourceTag(url),
+        ]);
+      }
+      await setCachedSource(url, {
+        data: Buffer.from([2]),
+        createdAt: Date.now(),
+      });
+
+      expect(await purgeSource(url)).toBe(2);
+      for (const mode of ["memory", "disk"] as CacheMode[]) {
+        config.cacheMode = mode;
+        expect(await getCached(keys[0])).toBeNull();
+        expect(await getCached(keys[1])).toBeNull();
+        expect(await getCachedSource(url)).toBeNull();
+      }
+      config.cacheMode = "hybrid";
+      expect(await purgeSource(url)).toBe(0);
+    });
+
+    test("disk tags list each key once and drop keys no longer on disk", async () => {
+      config.cacheMode = "disk";
+      const tag = templateTag("compact");
+      const id = createHash("sha256").update(`tag:${tag}`).digest("hex");
+      const tagFile = join(tempDir, TAG_INDEX_DIR, id.substring(0, 2), id);
+      const live = generateCacheKey({ test: "tag-live" });
+      const gone = generateCacheKey({ test: "tag-gone" });
+
+      // Re-rendering a key (e.g. a stale refresh) doesn't append it again
+      for (let i = 0; i < 3; i++) {
+        await setCache(live, createCacheEntry(Buffer.from([i]), "png"), [tag]);
+      }
+      await setCache(gone, createCacheEntry(Buffer.from([1]), "png"), [tag]);
+      expect(await readFile(tagFile, "utf-8")).toBe(`${live}\n${gone}\n`);
+
+      await unlink(join(tempDir, gone.substring(0, 2), gone));
+      await cleanupCache();
+      expect(await readFile(tagFile, "utf-8")).toBe(`${live}\n`);
+      expect(await purgeTag(tag)).toBe(1);
+    });
+
+    test("flushCache empties the disk tier but keeps the directory", async () => {
+      config.cacheMode = "disk";
+      const key = generateCacheKey({ test: "flush" });
+      await setCache(key, createCacheEntry(Buffer.from([1]), "png"), [
+        templateTag("flush"),
+      ]);
+
+      await flushCache();
+      expect(await getCached(key)).toBeNull();
+      expect(await purgeTag(templateTag("flush"))).toBe(0);
+      expect(getCacheStats().diskItems).toBe(0);
+      expect((await stat(tempDir)).isDirectory()).toBe(true);
+    });
+
+    test("cache modes map to their tiers", () => {
+      config.cacheMode = "hybrid";
+      expect(getCacheStats().tiers).toEqual(["memory", "disk"]);
+      config.cacheMode = "none";
+      expect(getCacheStats()).toEqual({ mode: "none", tiers: [] });
+    });
+
+    test("disk mode treats entries without metadata as misses", async () => {
+      config.cacheMode = "disk";
+      const key = generateCacheKey({ test: "legacy" });
+      await Bun.write(join(tempDir, key.substring(0, 2), key), "raw-bytes");
+
+      expect(await getCached(key)).toBeNull();
+    });
+  });
+
+  describe("s3 mode", () => {
+    const originalMode = config.cacheMode;
+    const originalEndpoint = config.s3Endpoint;
+    const originalBucket = config.s3Bucket;
+    const originalKeyId = config.s3AccessKeyId;
+    const originalSecret = config.s3SecretAccessKey;
+    const objects = new Map<string, { body: Uint8Array; modified: Date }>();
+    const downloads: string[] = [];
+    let server: ReturnType<typeof Bun.serve>;
+
+    // Minimal path-style S3 stand-in: PUT, GET, HEAD, DELETE and ListObjectsV2
+    beforeAll(() => {
+      server = Bun.serve({
+        port: 0,
+        hostname: "127.0.0.1",
+        async fetch(req) {
+          const url = new URL(req.url);
+          const path = decodeURIComponent(url.pathname);
+
+          if (url.searchParams.get("list-type") === "2") {
+            const prefix = `/cache/${url.searchParams.get("prefix") ?? ""}`;
+            const contents = [...objects]
+              .filter(([key]) => key.startsWith(prefix))
+              .map(
+                ([key, object]) =>
+                  `<Contents><Key>${key.slice("/cache/".length)}</Key><LastModified>${object.modified.toISOString()}</LastModified><Size>${object.body.length}</Size></Contents>`,
+              );
+            return new Response(
+              `<?xml version="1.0" encoding="UTF-8"?><ListBucketResult><Name>cache</Name><IsTruncated>false</IsTruncated>${contents.join("")}</ListBucketResult>`,
+              { headers: { "Content-Type": "application/xml" } },
+            );
+          }
+
+          if (req.method === "PUT") {
+            objects.set(path, {
+              body: new Uint8Array(await req.arrayBuffer()),
+              modified: new Date(),
+            });
+            return new Response(null);
+          }
+          if (req.method === "DELETE") {
+            objects.delete(path);
+            return new Response(null, { status: 204 });
+          }
+
+          const object = objects.get(path);
+          if (!object) {
+            return new Response(
+              "<Error><Code>NoSuchKey</Code><Message>Not found</Message></Error>",
+              { status: 404, headers: { "Content-Type": "application/xml" } },
+            );
+          }
+          const headers = { "Last-Modified": object.modified.toUTCString() };
+          if (req.method === "HEAD") {
+            return new Response(null, {
+              headers: {
+                ...headers,
+                "Content-Length": `${object.body.length}`,
+              },
+            });
+          }
+          downloads.push(path);
+          return new Response(object.body, { headers });
+        },
+      });
+
+      config.cacheMode = "s3";
+      config.s3Endpoint = `http://127.0.0.1:${server.port}`;
+      config.s3Bucket = "cache";
+      config.s3AccessKeyId = "test";
+      config.s3SecretAccessKey = "test";
+      initS3Cache();
+    });
+
+    afterAll(() => {
+      server.stop(true);
+      config.cacheMode = originalMode;
+      config.s3Endpoint = originalEndpoint;
+      config.s3Bucket = originalBucket;
+      config.s3AccessKeyId = originalKeyId;
+      config.s3SecretAccessKey = originalSecret;
+    });
+
+    test("round-trips outputs and sources under the prefix", async () => {
+      const key = generateCacheKey({ test: "s3" });
+      const entry = createCacheEntry(Buffer.from([7, 8, 9]), "webp", {
+        width: 3,
+        height: 1,
+      });
+      await setCache(key, entry);
+      await setCachedSource("https://example.com/s3.png", {
+        data: Buffer.from([1]),
+        etag: '"s3"',
+        createdAt: Date.now(),
+      });
+
+      const cached = await getCached(key);
+      expect(cached?.format).toBe("webp");
+      expect(cached?.hash).toBe(entry.hash);
+      expect(Buffer.from(cached?.data ?? [])).toEqual(Buffer.from([7, 8, 9]));
+      expect(objects.has(`/cache/pixelserve/${key}`)).toBe(true);
+
+      const source = await getCachedSource("https://example.com/s3.png");
+      expect(source?.etag).toBe('"s3"');
+      expect(await getCached(generateCacheKey({ test: "s3-miss" }))).toBeNull();
+    });
+
+    test("purges tagged objects and flushes the prefix", async () => {
+      const key = generateCacheKey({ test: "s3-tagged" });
+      await setCache(key, createCacheEntry(Buffer.from([1]), "png"), [
+        templateTag("s3"),
+      ]);
+
+      expect(await purgeTag(templateTag("s3"))).toBe(1);
+      expect(await getCached(key)).toBeNull();
+      expect([...objects.keys()].some((path) => path.includes("/tags/"))).toBe(
+        false,
+      );
+
+      await setCache(key, createCacheEntry(Buffer.from([1]), "png"));
+      await flushCache();
+      expect(objects.size).toBe(0);
+    });
+
+    test("expired objects are missed without a download and removed by cleanup", async () => {
+      const key = generateCacheKey({ test: "s3-expired" });
+      await setCache(key, createCacheEntry(Buffer.from([1]), "png"));
+      const object = objects.get(`/cache/pixelserve/${key}`);
+      if (object) object.modified = new Date(Date.now() - 2000 * 1000);
+
+      const originalTTL = config.cacheTTL;
+      try {
+        config.cacheTTL = 1000;
+        downloads.length = 0;
+        expect(await getCached(key)).toBeNull();
+        expect(downloads).toEqual([]);
+        expect(await cleanupCache()).toBe(1);
+        expect(objects.has(`/cache/pixelserve/${key}`)).toBe(false);
+      } finally {
+        config.cacheTTL = originalTTL;
+      }
+    });
+
+    test("cleanup trims sources to their size budget", async () => {
+      const originalBudget = config.maxSourceCacheSize;
+      try {
+        for (const name of ["old", "new"]) {
+          await setCachedSource(`https://example.com/s3-budget-${name}.png`, {
+            data: Buffer.alloc(100),
+            createdAt: Date.now(),
+          });
+          await Bun.sleep(10);
+        }
+        const sizes = [...objects]
+          .filter(([path]) => path.includes("/sources/"))
+          .map(([, object]) => object.body.length);
+        expect(sizes).toHaveLength(2);
+        config.maxSourceCacheSize = Math.max(...sizes);
+
+        expect(await cleanupCache()).toBe(1);
+        expect(
+          await getCachedSource("https://example.com/s3-budget-old.png"),
+        ).toBeNull();
+        expect(
+          await getCachedSource("https://example.com/s3-budget-new.png"),
+        ).not.toBeNull();
+      } finally {
+        config.maxSourceCacheSize = originalBudget;
+      }
+    });
+  });
+
+  describe("renderOnce", () => {
+    const originalMode = config.cacheMode;
+
+    afterAll(() => {
+      config.cacheMode = originalMode;
+    });
+
+    test("coalesces concurrent renders and stores the result", async () => {
+      config.cacheMode = "memory";
+      const key = generateCacheKey({ test: "render-once" });
+      let renders = 0;
+      const render = async () => {
+        renders++;
+        await Bun.sleep(10);
+        return createCacheEntry(Buffer.from("rendered"), "webp");
+      };
+
+      const entries = await Promise.all(
+        Array.from({ length: 5 }, () => renderOnce(key, render)),
+      );
+
+      expect(renders).toBe(1);
+      expect(new Set(entries).size).toBe(1);
+      expect((await getCached(key))?.hash).toBe(entries[0]?.hash);
+    });
+  });
+
+  describe("getOrRender", () => {
+    const original = {
+      cacheMode: config.cacheMode,
+      cacheTTL: config.cacheTTL,
+      cacheStaleTTL: config.cacheStaleTTL,
+    };
+
+    afterAll(() => {
+      Object.assign(config, original);
+    });
+
+    test("serves expired entries while refreshing them in the background", async () => {
+      Object.assign(config, {
+        cacheMode: "memory",
+        cacheTTL: 60,
+        cacheStaleTTL: 600,
+      });
+      const key = generateCacheKey({ test: "stale-refresh" });
+      const stale = createCacheEntry(Buffer.from("old"), "webp");
+      stale.createdAt = Date.now() - 120 * 1000;
+      await setCache(key, stale);
+
+      const before = getRenderStats().staleServed;
+      const { entry, cached } = await getOrRender(key, async () =>
+        createCacheEntry(Buffer.from("new"), "webp"),
+      );
+
+      expect(cached).toBe(true);
+      expect(entry.data.toString()).toBe("old");
+      expect(getRenderStats().staleServed).toBe(before + 1);
+
+      await Bun.sleep(10);
+      expect((await getCached(key))?.data.toString()).toBe("new");
+    });
+
+    test("keeps serving stale entries when the refresh fails", async () => {
+      Object.assign(config, {
+        cacheMode: "memory",
+        cacheTTL: 60,
+        cacheStaleTTL: 600,
+      });
+      const key = generateCacheKey({ test: "stale-error" });
+      const stale = createCacheEntry(Buffer.from("old"), "webp");
+      stale.createdAt = Date.now() - 120 * 1000;
+      await setCache(key, stale);
+
+      const first = await getOrRender(key, () =>
+        Promise.reject(new Error("origin down")),
+      );
+      await Bun.sleep(10);
+      const second = await getOrRender(key, () =>
+        Promise.reject(new Error("origin down")),
+      );
+
+      expect(first.entry.data.toString()).toBe("old");
+      expect(second.entry.data.toString()).toBe("old");
+    });
+
+    test("renders entries past the stale window", async () => {
+      Object.assign(config, {
+        cacheMode: "memory",
+        cacheTTL: 60,
+        cacheStaleTTL: 60,
+      });
+      const key = generateCacheKey({ test: "stale-expired" });
+      const expired = createCacheEntry(Buffer.from("old"), "webp");
+      expired.createdAt = Date.now() - 300 * 1000;
+      await setCache(key, expired);
+
+      const { entry, cached } = await getOrRender(key, async () =>
+        createCacheEntry(Buffer.from("new"), "webp"),
+      );
+
+      expect(cached).toBe(false);
+      expect(entry.data.toString()).toBe("new");
+    });
+  });
 });
@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { config } from "../../src/config";
+import { generateCacheKey } from "../../src/services/cache";
+import { type ImageParams, imageParamsToCacheKeyParams } from "../../src/types";
+import { applyClientHints } from "../../src/utils/client-hints";
+
+const url = "https://example.com/photo.jpg";
+const originalMaxWidth = config.maxWidth;
+
+function withHints(
+  params: Omit<ImageParams, "url">,
+  hints: Record<string, string>,
+): ImageParams {
+  const result = { url, ...params };
+  applyClientHints(result, new Headers(hints));
+  return result;
+}
+
+describe("Client Hints", () => {
+  afterEach(() => {
+    config.maxWidth = originalMaxWidth;
+  });
+
+  test("takes the DPR from Sec-CH-DPR", () => {
+    expect(withHints({ w: 300 }, { "Sec-CH-DPR": "2" })).toEqual({
+      url,
+      w: 300,
+      dpr: 2,
+    });
+  });
+
+  test("clamps the DPR hint to 1-4", () => {
+    expect(withHints({}, { "Sec-CH-DPR": "0.5" }).dpr).toBe(1);
+    expect(withHints({}, { "Sec-CH-DPR": "8" }).dpr).toBe(4);
+  });
+
+  test("rounds the DPR hint up to a supported ratio", () => {
+    const dprs = ["1", "1.25", "1.5", "1.75", "2.625", "3.5"].map(
+      (dpr) => withHints({}, { "Sec-CH-DPR": dpr }).dpr,
+    );
+    expect(dprs).toEqual([1, 1.5, 1.5, 2, 3, 4]);
+  });
+
+  test("snaps hinted widths up to 100px steps", () => {
+    const widths = ["1", "390", "400", "401", "1366"].map(
+      (width) => withHints({}, { "Sec-CH-Viewport-Width": width }).w,
+    );
+    expect(widths).toEqual([100, 400, 400, 500, 1400]);
+  });
+
+  test("maps nearby hints onto one cache key", () => {
+    const keys = new Set(
+      ["1201", "1250", "1299.5"].map((width) =>
+        generateCacheKey(
+          imageParamsToCacheKeyParams(
+            withHints(
+              {},
+              {
+                "Sec-CH-DPR": "2.75",
+                "Sec-CH-Width": String(Number(width) * 3),
+              },
+            ),
+          ),
+        ),
+      ),
+    );
+    expect(keys.size).toBe(1);
+  });
+
+  test("ignores malformed hints", () => {
+    expect(
+      withHints({}, { "Sec-CH-DPR": "abc", "Sec-CH-Width": "-5" }),
+    ).toEqual({ url });
+  });
+
+  test("converts Sec-CH-Width from device to CSS pixels", () => {
+    const params = withHints({}, { "Sec-CH-DPR": "2", "Sec-CH-Width": "801" });
+    expect(params.w).toBe(500);
+    expect(params.dpr).toBe(2);
+  });
+
+  test("falls back to Sec-CH-Viewport-Width", () => {
+    const params = withHints(
+      {},
+      { "Sec-CH-DPR": "3", "Sec-CH-Viewport-Width": "390" },
+    );
+    expect(params.w).toBe(400);
+  });
+
+  test("caps hinted widths at maxWidth", () => {
+    config.maxWidth = 500;
+    expect(withHints({}, { "Sec-CH-Viewport-Width": "1920" }).w).toBe(500);
+  });
+
+  test("never overrides explicit params", () => {
+    const hints = {
+      "Sec-CH-DPR": "3",
+      "Sec-CH-Width": "900",
+      "Sec-CH-Viewport-Width": "1200",
+    };
+    expect(withHints({ dpr: 1, w: 200 }, hints)).toEqual({
+      url,
+      dpr: 1,
+      w: 200,
+    });
+    expect(withHints({ h: 100 }, hints).w).toBeUndefined();
+    expect(withHints({ size: 50 }, hints).w).toBeUndefined();
+  });
+});
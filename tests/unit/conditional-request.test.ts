@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import { isNotModified } from "../../src/utils/conditional-request";
+
+const validators = {
+  ETag: '"abc-123"',
+  "Last-Modified": "Wed, 21 Oct 2026 07:28:00 GMT",
+};
+
+function request(headers: Record<string, string>): Request {
+  return new Request("http://localhost/image", { headers });
+}
+
+describe("Conditional Requests", () => {
+  describe("If-None-Match", () => {
+    test("matches identical ETag", () => {
+      expect(
+        isNotModified(request({ "If-None-Match": '"abc-123"' }), validators),
+      ).toBe(true);
+    });
+
+    test("matches ETag within a list", () => {
+      const req = request({ "If-None-Match": '"other", "abc-123"' });
+      expect(isNotModified(req, validators)).toBe(true);
+    });
+
+    test("matches weak ETag", () => {
+      const req = request({ "If-None-Match": 'W/"abc-123"' });
+      expect(isNotModified(req, validators)).toBe(true);
+    });
+
+    test("matches wildcard", () => {
+      expect(isNotModified(request({ "If-None-Match": "*" }), validators)).toBe(
+        true,
+      );
+    });
+
+    test("does not match different ETag", () => {
+      const req = request({ "If-None-Match": '"other"' });
+      expect(isNotModified(req, validators)).toBe(false);
+    });
+
+    test("takes precedence over If-Modified-Since", () => {
+      const req = request({
+        "If-None-Match": '"other"',
+        "If-Modified-Since": "Thu, 22 Oct 2026 07:28:00 GMT",
+      });
+      expect(isNotModified(req, validators)).toBe(false);
+    });
+  });
+
+  describe("If-Modified-Since", () => {
+    test("not modified when unchanged since date", () => {
+      const req = request({
+        "If-Modified-Since": "Wed, 21 Oct 2026 07:28:00 GMT",
+      });
+      expect(isNotModified(req, validators)).toBe(true);
+    });
+
+    test("modified when changed after date", () => {
+      const req = request({
+        "If-Modified-Since": "Tue, 20 Oct 2026 07:28:00 GMT",
+      });
+      expect(isNotModified(req, validators)).toBe(false);
+    });
+
+    test("ignores invalid dates", () => {
+      const req = request({ "If-Modified-Since": "not a date" });
+      expect(isNotModified(req, validators)).toBe(false);
+    });
+  });
+
+  test("returns false without conditional headers", () => {
+    expect(isNotModified(request({}), validators)).toBe(false);
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, expect, test } from "bun:test";
+
+// Config is validated on import and exits on failure, so load it in a child
+function loadConfig(env: Record<string, string>) {
+  return Bun.spawnSync(["bun", "-e", 'import "./src/config"'], {
+    env: { ...process.env, ...env },
+    stderr: "pipe",
+  });
+}
+
+describe("Config", () => {
+  test("accepts a custom S3 prefix", () => {
+    expect(loadConfig({ S3_PREFIX: "images/" }).exitCode).toBe(0);
+  });
+
+  test("rejects an empty S3 prefix", () => {
+    const result = loadConfig({ S3_PREFIX: "" });
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr.toString()).toContain("/s3Prefix");
+  });
+});
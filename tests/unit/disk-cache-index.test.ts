@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+import { DiskCacheIndex } from "../../src/services/disk-cache-index";
+
+describe("DiskCacheIndex", () => {
+  test("tracks total bytes across records and removals", () => {
+    const index = new DiskCacheIndex();
+    index.record("a", 100);
+    index.record("b", 50);
+    index.record("a", 30); // Rewrite replaces the previous size
+
+    expect(index.size()).toBe(2);
+    expect(index.totalBytes()).toBe(80);
+
+    index.remove("b");
+    index.remove("missing");
+    expect(index.totalBytes()).toBe(30);
+  });
+
+  test("evicts least recently recorded keys until under budget", () => {
+    const index = new DiskCacheIndex();
+    index.record("a", 100);
+    index.record("b", 100);
+    index.record("c", 100);
+    index.record("a", 100); // Access moves "a" to the end
+
+    expect(index.evict(150)).toEqual(["b", "c"]);
+    expect(index.size()).toBe(1);
+    expect(index.totalBytes()).toBe(100);
+    expect(index.evict(150)).toEqual([]);
+  });
+
+  test("rebuild orders entries by access time", () => {
+    const index = new DiskCacheIndex();
+    index.record("stale", 10);
+    index.rebuild([
+      { key: "newer", size: 100, accessedAt: 2000 },
+      { key: "older", size: 100, accessedAt: 1000 },
+    ]);
+
+    expect(index.size()).toBe(2);
+    expect(index.totalBytes()).toBe(200);
+    expect(index.evict(100)).toEqual(["older"]);
+  });
+});
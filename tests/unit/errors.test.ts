@@ -3,9 +3,12 @@ import {
   FetchError,
   ForbiddenError,
   ImageProcessingError,
+  ImageTooLargeError,
   NotFoundError,
   PixelServeError,
   TimeoutError,
+  UnauthorizedError,
+  UnsupportedFormatError,
   ValidationError,
 } from "../../src/utils/errors";
 
@@ -66,6 +69,29 @@ describe("Error Classes", () => {
     });
   });
 
+  describe("UnauthorizedError", () => {
+    test("creates error with message", () => {
+      const error = new UnauthorizedError("Invalid signature");
+      expect(error.message).toBe("Invalid signature");
+      expect(error.name).toBe("UnauthorizedError");
+    });
+
+    test("has 401 status code", () => {
+      const error = new UnauthorizedError("Invalid signature");
+      expect(error.statusCode).toBe(401);
+    });
+
+    test("has UNAUTHORIZED code", () => {
+      const error = new UnauthorizedError("Invalid signature");
+      expect(error.code).toBe("UNAUTHORIZED");
+    });
+
+    test("is instanceof PixelServeError", () => {
+      const error = new UnauthorizedError("Test");
+      expect(error).toBeInstanceOf(PixelServeError);
+    });
+  });
+
   describe("ForbiddenError", () => {
     test("creates error with message", () => {
       const error = new ForbiddenError("Access denied");
@@ -163,6 +189,42 @@ describe("Error Classes", () => {
     });
   });
 
+  describe("UnsupportedFormatError", () => {
+    test("creates error with message", () => {
+      const error = new UnsupportedFormatError("Unsupported input format: bmp");
+      expect(error.message).toBe("Unsupported input format: bmp");
+      expect(error.name).toBe("UnsupportedFormatError");
+    });
+
+    test("has 415 status code", () => {
+      const error = new UnsupportedFormatError("Unsupported");
+      expect(error.statusCode).toBe(415);
+    });
+
+    test("has UNSUPPORTED_FORMAT code", () => {
+      const error = new UnsupportedFormatError("Unsupported");
+      expect(error.code).toBe("UNSUPPORTED_FORMAT");
+    });
+  });
+
+  describe("ImageTooLargeError", () => {
+    test("creates error with message", () => {
+      const error = new ImageTooLargeError("Source image is too large");
+      expect(error.message).toBe("Source image is too large");
+      expect(error.name).toBe("ImageTooLargeError");
+    });
+
+    test("has 413 status code", () => {
+      const error = new ImageTooLargeError("Too large");
+      expect(error.statusCode).toBe(413);
+    });
+
+    test("has IMAGE_TOO_LARGE code", () => {
+      const error = new ImageTooLargeError("Too large");
+      expect(error.code).toBe("IMAGE_TOO_LARGE");
+    });
+  });
+
   describe("ImageProcessingError", () => {
     test("creates error with message", () => {
       const error = new ImageProcessingError("Processing failed");
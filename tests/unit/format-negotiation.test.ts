@@ -0,0 +1,55 @@
+import { describe, expect, test } from "bun:test";
+import {
+  getFallbackFormat,
+  negotiateFormat,
+} from "../../src/utils/format-negotiation";
+
+describe("Format Negotiation", () => {
+  describe("negotiateFormat", () => {
+    test("prefers avif when accepted", () => {
+      const accept =
+        "image/avif,image/webp,image/apng,image/svg+xml,image/*,*/*;q=0.8";
+      expect(negotiateFormat(accept)).toBe("avif");
+    });
+
+    test("falls back to webp without avif", () => {
+      const accept = "image/webp,image/png,image/svg+xml,image/*;q=0.8";
+      expect(negotiateFormat(accept)).toBe("webp");
+    });
+
+    test("ignores wildcards (Safari 13)", () => {
+      const accept =
+        "image/png,image/svg+xml,image/*;q=0.8,video/*;q=0.8,*/*;q=0.5";
+      expect(negotiateFormat(accept)).toBeNull();
+    });
+
+    test("ignores formats with q=0", () => {
+      expect(negotiateFormat("image/avif;q=0, image/webp")).toBe("webp");
+    });
+
+    test("skips formats the server can't encode", () => {
+      const accept = "image/avif,image/webp,*/*";
+      expect(negotiateFormat(accept, ["webp", "png", "jpeg"])).toBe("webp");
+      expect(negotiateFormat(accept, ["png", "jpeg"])).toBeNull();
+    });
+
+    test("is case-insensitive", () => {
+      expect(negotiateFormat("Image/AVIF")).toBe("avif");
+    });
+
+    test("returns null for a missing header", () => {
+      expect(negotiateFormat(null)).toBeNull();
+      expect(negotiateFormat("")).toBeNull();
+    });
+  });
+
+  describe("getFallbackFormat", () => {
+    test("uses png for sources with alpha", () => {
+      expect(getFallbackFormat(true)).toBe("png");
+    });
+
+    test("uses jpeg for opaque sources", () => {
+      expect(getFallbackFormat(false)).toBe("jpeg");
+    });
+  });
+});
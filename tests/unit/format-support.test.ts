@@ -0,0 +1,38 @@
+import { describe, expect, test } from "bun:test";
+import sharp from "sharp";
+import {
+  assertOutputFormat,
+  getOutputFormats,
+} from "../../src/services/format-support";
+import { ValidationError } from "../../src/utils/errors";
+
+describe("Format Support", () => {
+  test("lists the formats every sharp build encodes", async () => {
+    const formats = await getOutputFormats();
+    for (const format of ["webp", "png", "jpeg", "jpg", "gif", "tiff"]) {
+      expect(formats).toContain(format);
+    }
+  });
+
+  test("hides JPEG XL when libvips has no jxl saver", async () => {
+    const formats = await getOutputFormats();
+    expect(formats.includes("jxl")).toBe(sharp.format.jxl.output.buffer);
+  });
+
+  test("probes once and reuses the result", () => {
+    expect(getOutputFormats()).toBe(getOutputFormats());
+  });
+
+  test("assertOutputFormat rejects formats the build can't encode", async () => {
+    await expect(assertOutputFormat("png")).resolves.toBeUndefined();
+
+    const formats = await getOutputFormats();
+    for (const format of ["heic", "jxl"] as const) {
+      if (!formats.includes(format)) {
+        await expect(assertOutputFormat(format)).rejects.toThrow(
+          ValidationError,
+        );
+      }
+    }
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import sharp from "sharp";
+import { config } from "../../src/config";
+import { fetchImage, getFetchStats } from "../../src/services/image-fetcher";
+import {
+  TimeoutError,
+  UnsupportedFormatError,
+  ValidationError,
+} from "../../src/utils/errors";
+
+const original = {
+  allowSelfReference: config.allowSelfReference,
+  maxImageSize: config.maxImageSize,
+  requestTimeout: config.requestTimeout,
+};
+
+// Local upstream, reachable through the self-reference allowance
+let server: ReturnType<typeof Bun.serve>;
+let png: Buffer;
+
+const url = (path: string) => `http://127.0.0.1:${server.port}/image${path}`;
+
+describe("Image Fetcher", () => {
+  beforeAll(async () => {
+    config.allowSelfReference = true;
+    png = await sharp({
+      create: {
+        width: 8,
+        height: 8,
+        channels: 3,
+        background: { r: 0, g: 255, b: 0 },
+      },
+    })
+      .png()
+      .toBuffer();
+
+    server = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch(req) {
+        const { pathname } = new URL(req.url);
+        switch (pathname) {
+          case "/image/octet":
+            return new Response(png, {
+              headers: { "Content-Type": "application/octet-stream" },
+            });
+          case "/image/html":
+            return new Response("<html></html>", {
+              headers: { "Content-Type": "image/png" },
+            });
+          case "/image/unbounded": {
+            // Chunked body with no Content-Length
+            let sent = 0;
+            const stream = new ReadableStream({
+              pull(controller) {
+                if (sent >= 1024 * 1024) {
+                  controller.close();
+                  return;
+                }
+                sent += 4096;
+                controller.enqueue(new Uint8Array(4096));
+              },
+            });
+            return new Response(stream);
+          }
+          case "/image/redirect":
+            return Response.redirect(url("/slow"), 302);
+          case "/image/slow":
+            return new Promise((resolve) =>
+              setTimeout(() => resolve(new Response(png)), 500),
+            );
+          default:
+            return new Response("Not found", { status: 404 });
+        }
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+    config.allowSelfReference = original.allowSelfReference;
+  });
+
+  afterEach(() => {
+    config.maxImageSize = original.maxImageSize;
+    config.requestTimeout = original.requestTimeout;
+  });
+
+  test("accepts images served as application/octet-stream", async () => {
+    const buffer = await fetchImage(url("/octet"));
+    expect(buffer.equals(png)).toBe(true);
+  });
+
+  test("rejects non-image content labelled as an image", async () => {
+    await expect(fetchImage(url("/html"))).rejects.toThrow(
+      UnsupportedFormatError,
+    );
+  });
+
+  test("aborts bodies without Content-Length once over the limit", async () => {
+    config.maxImageSize = 64 * 1024;
+    const before = getFetchStats().oversized;
+
+    await expect(fetchImage(url("/unbounded"))).rejects.toThrow(
+      ValidationError,
+    );
+    expect(getFetchStats().oversized).toBe(before + 1);
+  });
+
+  test("applies the timeout across redirects", async () => {
+    config.requestTimeout = 200;
+    const before = getFetchStats().timedOut;
+
+    await expect(fetchImage(url("/redirect"))).rejects.toThrow(TimeoutError);
+    expect(getFetchStats().timedOut).toBe(before + 1);
+  });
+
+  test("counts requests and downloaded bytes", async () => {
+    const before = getFetchStats();
+    await fetchImage(url("/octet"));
+    const after = getFetchStats();
+
+    expect(after.requests).toBe(before.requests + 1);
+    expect(after.succeeded).toBe(before.succeeded + 1);
+    expect(after.bytes).toBe(before.bytes + png.length);
+  });
+});
@@ -1,11 +1,19 @@
 import { beforeAll, describe, expect, test } from "bun:test";
 import sharp from "sharp";
+import { config } from "../../src/config";
+import { setCachedSource } from "../../src/services/cache";
 import { processImage } from "../../src/services/image-processor";
-import { ImageProcessingError, ValidationError } from "../../src/utils/errors";
+import { getSourceCacheStats } from "../../src/services/source-cache";
+import {
+  ImageProcessingError,
+  ImageTooLargeError,
+  ValidationError,
+} from "../../src/utils/errors";
 
 // Create test images in memory
 let testImageBuffer: Buffer;
-let _testImageBufferWithAlpha: Buffer;
+let testImageBufferWithAlpha: Buffer;
+let animatedGifBuffer: Buffer;
 
 beforeAll(async () => {
   // Create a simple 100x100 red test image
@@ -21,7 +29,7 @@ beforeAll(async () => {
     .toBuffer();
 
   // Create a 100x100 image with alpha channel
-  _testImageBufferWithAlpha = await sharp({
+  testImageBufferWithAlpha = await sharp({
     create: {
       width: 100,
       height: 100,
@@ -31,8 +39,40 @@ beforeAll(async () => {
   })
     .png()
     .toBuffer();
+
+  // A 3-frame 40x30 GIF: red, green, blue
+  const frames = await Promise.all(
+    [
+      { r: 255, g: 0, b: 0 },
+      { r: 0, g: 255, b: 0 },
+      { r: 0, g: 0, b: 255 },
+    ].map((background) =>
+      sharp({ create: { width: 40, height: 30, channels: 3, background } })
+        .png()
+        .toBuffer(),
+    ),
+  );
+  animatedGifBuffer = await sharp(frames, { join: { animated: true } })
+    .gif({ delay: [100, 200, 300], loop: 0 })
+    .toBuffer();
 });
 
+// Dominant channel of each frame's top-left pixel
+async function frameColors(buffer: Buffer): Promise<string[]> {
+  const { pages = 1 } = await sharp(buffer).metadata();
+  const colors: string[] = [];
+  for (let page = 0; page < pages; page++) {
+    const data = await sharp(buffer, { page })
+      .extract({ left: 0, top: 0, width: 1, height: 1 })
+      .removeAlpha()
+      .raw()
+      .toBuffer();
+    const channel = data.indexOf(Math.max(...data));
+    colors.push(["r", "g", "b"][channel] as string);
+  }
+  return colors;
+}
+
 describe("Image Processor", () => {
   describe("Basic Processing", () => {
     test("processes image with default settings", async () => {
@@ -79,6 +119,30 @@ describe("Image Processor", () => {
       expect(metadata.height).toBe(50);
     });
 
+    test("multiplies width and height by dpr", async () => {
+      const result = await processImage(
+        { url: "https://example.com/test.jpg", w: 30, h: 20, dpr: 2 },
+        testImageBuffer,
+      );
+
+      expect(result.width).toBe(60);
+      expect(result.height).toBe(40);
+    });
+
+    test("caps dpr-scaled sizes at the output limits", async () => {
+      const originalMaxWidth = config.maxWidth;
+      config.maxWidth = 50;
+      try {
+        const result = await processImage(
+          { url: "https://example.com/test.jpg", w: 40, dpr: 3 },
+          testImageBuffer,
+        );
+        expect(result.width).toBe(50);
+      } finally {
+        config.maxWidth = originalMaxWidth;
+      }
+    });
+
     test("resizes image to specified width and height", async () => {
       const result = await processImage(
         { url: "https://example.com/test.jpg", w: 50, h: 25 },
@@ -183,6 +247,46 @@ describe("Image Processor", () => {
       const metadata = await sharp(result.buffer).metadata();
       expect(metadata.format).toBe("heif"); // AVIF uses HEIF container
     });
+
+    test("converts to tiff with the requested compression", async () => {
+      const url = "https://example.com/test.jpg";
+      const compressed = await processImage(
+        { url, format: "tiff" },
+        testImageBuffer,
+      );
+      const uncompressed = await processImage(
+        { url, format: "tiff", compression: "none" },
+        testImageBuffer,
+      );
+
+      expect(compressed.format).toBe("tiff");
+      expect((await sharp(compressed.buffer).metadata()).format).toBe("tiff");
+      // 100x100 RGB stored raw
+      expect(uncompressed.buffer.length).toBeGreaterThan(100 * 100 * 3);
+      expect(compressed.buffer.length).toBeLessThan(100 * 100 * 3);
+    });
+
+    test("unresolved auto falls back to jpeg for opaque sources", async () => {
+      const result = await processImage(
+        { url: "https://example.com/test.jpg", format: "auto" },
+        testImageBuffer,
+      );
+
+      expect(result.format).toBe("jpeg");
+      const metadata = await sharp(result.buffer).metadata();
+      expect(metadata.format).toBe("jpeg");
+    });
+
+    test("unresolved auto falls back to png for sources with alpha", async () => {
+      const result = await processImage(
+        { url: "https://example.com/test.png", format: "auto" },
+        testImageBufferWithAlpha,
+      );
+
+      expect(result.format).toBe("png");
+      const metadata = await sharp(result.buffer).metadata();
+      expect(metadata.format).toBe("png");
+    });
   });
 
   describe("Quality Settings", () => {
@@ -202,6 +306,71 @@ describe("Image Processor", () => {
     });
   });
 
+  describe("Encoder Options", () => {
+    const url = "https://example.com/test.png";
+
+    test("lossless WebP differs from the lossy encoding", async () => {
+      const lossy = await processImage(
+        { url, format: "webp" },
+        testImageBuffer,
+      );
+      const lossless = await processImage(
+        { url, format: "webp", lossless: true, effort: 9 },
+        testImageBuffer,
+      );
+
+      expect(lossless.buffer.equals(lossy.buffer)).toBe(false);
+    });
+
+    test("JPEG is progressive by default and can opt out", async () => {
+      const progressive = await processImage(
+        { url, format: "jpeg" },
+        testImageBuffer,
+      );
+      const baseline = await processImage(
+        { url, format: "jpeg", progressive: false },
+        testImageBuffer,
+      );
+
+      expect((await sharp(progressive.buffer).metadata()).isProgressive).toBe(
+        true,
+      );
+      expect((await sharp(baseline.buffer).metadata()).isProgressive).toBe(
+        false,
+      );
+    });
+
+    test("applies JPEG chroma subsampling", async () => {
+      const result = await processImage(
+        { url, format: "jpeg", chroma_subsampling: "4:4:4" },
+        testImageBuffer,
+      );
+
+      expect((await sharp(result.buffer).metadata()).chromaSubsampling).toBe(
+        "4:4:4",
+      );
+    });
+
+    test("colors switches PNG to a quantized palette", async () => {
+      const result = await processImage(
+        { url, format: "png", colors: 4, dither: 0 },
+        testImageBufferWithAlpha,
+      );
+
+      expect((await sharp(result.buffer).metadata()).isPalette).toBe(true);
+    });
+
+    // Prebuilt binaries (which report a bundled libheif) are 8-bit only
+    test.skipIf(!sharp.versions.heif)(
+      "rejects AVIF bit depths the build can't encode",
+      async () => {
+        await expect(
+          processImage({ url, format: "avif", bitdepth: 10 }, testImageBuffer),
+        ).rejects.toThrow(ValidationError);
+      },
+    );
+  });
+
   describe("Transformations", () => {
     test("applies blur effect", async () => {
       const result = await processImage(
@@ -362,6 +531,277 @@ describe("Image Processor", () => {
     });
   });
 
+  describe("Animation", () => {
+    const url = "https://example.com/animated.gif";
+
+    test("keeps every frame and its timing in animated WebP", async () => {
+      const result = await processImage(
+        { url, format: "webp" },
+        animatedGifBuffer,
+      );
+      const metadata = await sharp(result.buffer).metadata();
+
+      expect(result.format).toBe("webp");
+      expect(metadata.pages).toBe(3);
+      expect(metadata.delay).toEqual([100, 200, 300]);
+      expect(metadata.loop).toBe(0);
+      expect(await frameColors(result.buffer)).toEqual(["r", "g", "b"]);
+    });
+
+    test("resizes and crops each frame", async () => {
+      const result = await processImage(
+        { url, format: "gif", crop: "0,0,20,30", w: 10 },
+        animatedGifBuffer,
+      );
+      const metadata = await sharp(result.buffer).metadata();
+
+      expect(metadata.pages).toBe(3);
+      expect(metadata.width).toBe(10);
+      expect(metadata.height).toBe(15);
+      expect(result.width).toBe(10);
+      expect(result.height).toBe(15);
+    });
+
+    test("applies flips and rotation per frame", async () => {
+      const result = await processImage(
+        { url, format: "gif", flip: true, rotate: 90 },
+        animatedGifBuffer,
+      );
+      const metadata = await sharp(result.buffer).metadata();
+
+      expect(metadata.width).toBe(30);
+      expect(metadata.height).toBe(40);
+      expect(await frameColors(result.buffer)).toEqual(["r", "g", "b"]);
+    });
+
+    test("trims every frame to the first frame's bounds", async () => {
+      const framed = await Promise.all(
+        ["#ff0000", "#00ff00"].map((color) =>
+          sharp({
+            create: { width: 40, height: 30, channels: 3, background: "#fff" },
+          })
+            .composite([
+              {
+                input: {
+                  create: {
+                    width: 10,
+                    height: 10,
+                    channels: 3,
+                    background: color,
+                  },
+                },
+                left: 5,
+                top: 5,
+              },
+            ])
+            .png()
+            .toBuffer(),
+        ),
+      );
+      const gif = await sharp(framed, { join: { animated: true } })
+        .gif()
+        .toBuffer();
+
+      const result = await processImage(
+        { url, format: "webp", trim: true },
+        gif,
+      );
+
+      expect(result.width).toBe(10);
+      expect(result.height).toBe(10);
+      expect(await frameColors(result.buffer)).toEqual(["r", "g"]);
+    });
+
+    test("encodes animated AVIF requests as animated WebP", async () => {
+      const result = await processImage(
+        { url, format: "avif" },
+        animatedGifBuffer,
+      );
+
+      expect(result.format).toBe("webp");
+      expect((await sharp(result.buffer).metadata()).pages).toBe(3);
+    });
+
+    test("unresolved auto keeps animation as GIF", async () => {
+      const result = await processImage(
+        { url, format: "auto" },
+        animatedGifBuffer,
+      );
+
+      expect(result.format).toBe("gif");
+      expect((await sharp(result.buffer).metadata()).pages).toBe(3);
+    });
+
+    test("frames limits the number of frames kept", async () => {
+      const result = await processImage(
+        { url, format: "webp", frames: 2 },
+        animatedGifBuffer,
+      );
+
+      expect(await frameColors(result.buffer)).toEqual(["r", "g"]);
+      expect((await sharp(result.buffer).metadata()).delay).toEqual([100, 200]);
+    });
+
+    test("animated=false returns the first frame as a still", async () => {
+      const result = await processImage(
+        { url, format: "webp", animated: false },
+        animatedGifBuffer,
+      );
+      const metadata = await sharp(result.buffer).metadata();
+
+      expect(metadata.pages ?? 1).toBe(1);
+      expect(metadata.height).toBe(30);
+      expect(await frameColors(result.buffer)).toEqual(["r"]);
+    });
+
+    test("formats without animation get the first frame", async () => {
+      const result = await processImage(
+        { url, format: "png" },
+        animatedGifBuffer,
+      );
+
+      expect(result.format).toBe("png");
+      expect(result.height).toBe(30);
+    });
+
+    test("counts every frame against maxInputPixels", async () => {
+      const originalMaxInputPixels = config.maxInputPixels;
+      config.maxInputPixels = 40 * 30 * 2;
+      try {
+        await expect(
+          processImage({ url, format: "gif" }, animatedGifBuffer),
+        ).rejects.toThrow(ImageTooLargeError);
+
+        // The poster frame alone is within the limit
+        const poster = await processImage(
+          { url, format: "gif", animated: false },
+          animatedGifBuffer,
+        );
+        expect(poster.height).toBe(30);
+      } finally {
+        config.maxInputPixels = originalMaxInputPixels;
+      }
+    });
+
+    test("renders the watermark once and composites it on every frame", async () => {
+      const wmUrl = "https://example.com/watermark.png";
+      const originalMode = config.cacheMode;
+      config.cacheMode = "memory";
+      try {
+        await setCachedSource(wmUrl, {
+          data: await sharp({
+            create: {
+              width: 10,
+              height: 10,
+              channels: 3,
+              background: { r: 255, g: 255, b: 255 },
+            },
+          })
+            .png()
+            .toBuffer(),
+          createdAt: Date.now(),
+        });
+        const { hits } = getSourceCacheStats();
+
+        const result = await processImage(
+          { url, format: "webp", wm_image: wmUrl, wm_position: "top-left" },
+          animatedGifBuffer,
+        );
+
+        expect(getSourceCacheStats().hits - hits).toBe(1);
+        for (let page = 0; page < 3; page++) {
+          const corner = await sharp(result.buffer, { page })
+            .extract({ left: 0, top: 0, width: 1, height: 1 })
+            .removeAlpha()
+            .raw()
+            .toBuffer();
+          expect([...corner].every((value) => value > 200)).toBe(true);
+        }
+      } finally {
+        config.cacheMode = originalMode;
+      }
+    });
+  });
+
+  describe("SVG", () => {
+    const url = "https://example.com/logo.svg";
+    const svg = Buffer.from(
+      '<svg xmlns="http://www.w3.org/2000/svg" width="20" height="10"><rect width="20" height="10" fill="red"/></svg>',
+    );
+
+    test("rasterizes at the default density", async () => {
+      const result = await processImage({ url, format: "png" }, svg);
+      expect(result.format).toBe("png");
+      expect(result.width).toBe(20);
+      expect(result.height).toBe(10);
+    });
+
+    test("rasterizes at a requested density", async () => {
+      const result = await processImage(
+        { url, format: "png", density: 144 },
+        svg,
+      );
+      expect(result.width).toBe(40);
+      expect(result.height).toBe(20);
+    });
+
+    test("raises the density to draw at the requested size", async () => {
+      const result = await processImage({ url, format: "png", w: 400 }, svg);
+      expect(result.width).toBe(400);
+      expect(result.height).toBe(200);
+
+      // Drawn at 1440 DPI rather than upscaled, so the source decodes at 400x200
+      const originalMaxInputPixels = config.maxInputPixels;
+      config.maxInputPixels = 400 * 200 - 1;
+      try {
+        await expect(
+          processImage({ url, format: "png", w: 400 }, svg),
+        ).rejects.toThrow(ImageTooLargeError);
+      } finally {
+        config.maxInputPixels = originalMaxInputPixels;
+      }
+    });
+
+    test("multiplies the density by dpr", async () => {
+      const result = await processImage(
+        { url, format: "png", density: 144, dpr: 2 },
+        svg,
+      );
+      expect(result.width).toBe(80);
+
+      const sized = await processImage(
+        { url, format: "png", w: 100, dpr: 2 },
+        svg,
+      );
+      expect(sized.width).toBe(200);
+    });
+
+    test("counts the rasterized size against input limits", async () => {
+      const originalMaxInputPixels = config.maxInputPixels;
+      config.maxInputPixels = 20 * 10 * 4;
+      try {
+        await expect(
+          processImage({ url, format: "png", density: 288 }, svg),
+        ).rejects.toThrow(ImageTooLargeError);
+      } finally {
+        config.maxInputPixels = originalMaxInputPixels;
+      }
+    });
+
+    test("passes SVG sources through as SVG", async () => {
+      const result = await processImage({ url, format: "svg", w: 5 }, svg);
+      expect(result.format).toBe("svg");
+      expect(result.buffer).toBe(svg);
+      expect(result.width).toBe(20);
+    });
+
+    test("rejects SVG output for raster sources", async () => {
+      await expect(
+        processImage({ url, format: "svg" }, testImageBuffer),
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
   describe("Error Handling", () => {
     test("throws ImageProcessingError for corrupted image data", async () => {
       const corruptedBuffer = Buffer.from("not an image");
@@ -370,5 +810,20 @@ describe("Image Processor", () => {
         processImage({ url: "https://example.com/test.jpg" }, corruptedBuffer),
       ).rejects.toThrow(ImageProcessingError);
     });
+
+    test("throws ImageTooLargeError before decoding oversized inputs", async () => {
+      const originalMaxInputPixels = config.maxInputPixels;
+      config.maxInputPixels = 100 * 100 - 1;
+      try {
+        await expect(
+          processImage(
+            { url: "https://example.com/test.jpg", w: 10 },
+            testImageBuffer,
+          ),
+        ).rejects.toThrow(ImageTooLargeError);
+      } finally {
+        config.maxInputPixels = originalMaxInputPixels;
+      }
+    });
   });
 });
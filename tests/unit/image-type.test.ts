@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import sharp from "sharp";
+import { config } from "../../src/config";
+import { UnsupportedFormatError } from "../../src/utils/errors";
+import {
+  acceptSourceImage,
+  assertImageFormat,
+  detectImageFormat,
+} from "../../src/utils/image-type";
+
+const originalFormats = config.allowedInputFormats;
+
+function createImage(format: "png" | "jpeg" | "webp" | "tiff") {
+  return sharp({
+    create: {
+      width: 8,
+      height: 8,
+      channels: 3,
+      background: { r: 0, g: 0, b: 255 },
+    },
+  })
+    .toFormat(format)
+    .toBuffer();
+}
+
+describe("Image Type Detection", () => {
+  afterEach(() => {
+    config.allowedInputFormats = originalFormats;
+  });
+
+  describe("detectImageFormat", () => {
+    test("detects formats from magic bytes", async () => {
+      expect(await detectImageFormat(await createImage("png"))).toBe("png");
+      expect(await detectImageFormat(await createImage("webp"))).toBe("webp");
+    });
+
+    test("normalizes file-type extensions", async () => {
+      expect(await detectImageFormat(await createImage("jpeg"))).toBe("jpeg");
+      expect(await detectImageFormat(await createImage("tiff"))).toBe("tiff");
+    });
+
+    test("detects SVG from its root element", async () => {
+      const svg = Buffer.from(
+        '<?xml version="1.0"?><svg xmlns="http://www.w3.org/2000/svg"/>',
+      );
+      expect(await detectImageFormat(svg)).toBe("svg");
+    });
+
+    test("returns null for non-image content", async () => {
+      expect(await detectImageFormat(Buffer.from("<html></html>"))).toBeNull();
+      expect(
+        await detectImageFormat(Buffer.from("%PDF-1.7\n%âãÏÓ\n")),
+      ).toBeNull();
+    });
+  });
+
+  describe("assertImageFormat", () => {
+    test("accepts allowed formats", async () => {
+      expect(await assertImageFormat(await createImage("png"))).toBe("png");
+    });
+
+    test("rejects content that isn't an image", async () => {
+      await expect(
+        assertImageFormat(Buffer.from("<html><body>Not found</body></html>")),
+      ).rejects.toThrow(UnsupportedFormatError);
+    });
+
+    test("rejects formats outside the allowlist", async () => {
+      config.allowedInputFormats = ["png"];
+      await expect(
+        assertImageFormat(await createImage("webp")),
+      ).rejects.toThrow("Unsupported input format: webp");
+    });
+
+    test("accepts allowlist aliases", async () => {
+      config.allowedInputFormats = ["jpg"];
+      expect(await assertImageFormat(await createImage("jpeg"))).toBe("jpeg");
+    });
+  });
+
+  describe("acceptSourceImage", () => {
+    test("returns raster images unchanged", async () => {
+      const png = await createImage("png");
+      expect(await acceptSourceImage(png)).toBe(png);
+    });
+
+    test("sanitizes SVG sources", async () => {
+      const svg = Buffer.from(
+        '<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script></svg>',
+      );
+      expect((await acceptSourceImage(svg)).toString()).toBe(
+        '<svg xmlns="http://www.w3.org/2000/svg"></svg>',
+      );
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import sharp from "sharp";
+import { config } from "../../src/config";
+import {
+  getUploadSourceUrl,
+  readFormBody,
+  readRequestBody,
+  readUploadedImage,
+} from "../../src/services/image-upload";
+import {
+  UnsupportedFormatError,
+  ValidationError,
+} from "../../src/utils/errors";
+
+const originalMaxImageSize = config.maxImageSize;
+
+async function createPng(): Promise<Buffer> {
+  return sharp({
+    create: {
+      width: 10,
+      height: 10,
+      channels: 3,
+      background: { r: 255, g: 0, b: 0 },
+    },
+  })
+    .png()
+    .toBuffer();
+}
+
+// Streams the body in chunks without a Content-Length header
+function streamingRequest(chunks: Uint8Array[]): Request {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(chunk);
+      controller.close();
+    },
+  });
+  return new Request("http://localhost/image", { method: "POST", body });
+}
+
+describe("Image Upload", () => {
+  afterEach(() => {
+    config.maxImageSize = originalMaxImageSize;
+  });
+
+  describe("readRequestBody", () => {
+    test("reads the full body", async () => {
+      const body = await readRequestBody(
+        streamingRequest([Buffer.from("abc"), Buffer.from("def")]),
+        100,
+      );
+      expect(body.toString()).toBe("abcdef");
+    });
+
+    test("rejects bodies that stream past the limit", async () => {
+      const request = streamingRequest([Buffer.alloc(6), Buffer.alloc(6)]);
+      await expect(readRequestBody(request, 10)).rejects.toThrow(
+        ValidationError,
+      );
+    });
+
+    test("rejects an oversized Content-Length up front", async () => {
+      const request = new Request("http://localhost/image", {
+        method: "POST",
+        headers: { "Content-Length": "1000" },
+        body: "x",
+      });
+      await expect(readRequestBody(request, 10)).rejects.toThrow(
+        "exceeds maximum size",
+      );
+    });
+  });
+
+  describe("readFormBody", () => {
+    test("parses JSON bodies", async () => {
+      const request = new Request("http://localhost/image/batch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url: "https://example.com/a.png" }),
+      });
+      expect(await readFormBody(request)).toEqual({
+        url: "https://example.com/a.png",
+      });
+    });
+
+    test("rejects other content types", async () => {
+      const request = new Request("http://localhost/image/batch", {
+        method: "POST",
+        headers: { "Content-Type": "text/plain" },
+        body: "hello",
+      });
+      await expect(readFormBody(request)).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe("readUploadedImage", () => {
+    test("reads a raw image body", async () => {
+      const png = await createPng();
+      const request = new Request("http://localhost/image", {
+        method: "POST",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: png,
+      });
+      expect((await readUploadedImage(request)).equals(png)).toBe(true);
+    });
+
+    test("reads the file field of a multipart body", async () => {
+      const png = await createPng();
+      const form = new FormData();
+      form.append("file", new Blob([png]), "image.png");
+      const request = new Request("http://localhost/image", {
+        method: "POST",
+        body: form,
+      });
+      expect((await readUploadedImage(request)).equals(png)).toBe(true);
+    });
+
+    test("rejects bodies that aren't images", async () => {
+      const request = new Request("http://localhost/image", {
+        method: "POST",
+        headers: { "Content-Type": "image/png" },
+        body: "<html></html>",
+      });
+      await expect(readUploadedImage(request)).rejects.toThrow(
+        UnsupportedFormatError,
+      );
+    });
+
+    test("enforces maxImageSize", async () => {
+      config.maxImageSize = 16;
+      const request = new Request("http://localhost/image", {
+        method: "POST",
+        body: await createPng(),
+      });
+      await expect(readUploadedImage(request)).rejects.toThrow(
+        "exceeds maximum size",
+      );
+    });
+
+    test("rejects an empty body", async () => {
+      const request = new Request("http://localhost/image", {
+        method: "POST",
+      });
+      await expect(readUploadedImage(request)).rejects.toThrow("empty");
+    });
+  });
+
+  test("getUploadSourceUrl keys uploads by content hash", () => {
+    const { url, hash } = getUploadSourceUrl(Buffer.from("image"));
+    expect(hash).toMatch(/^[a-f0-9]{64}$/);
+    expect(url).toBe(`upload:${hash}`);
+  });
+});
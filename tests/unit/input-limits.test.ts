@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { crc32, deflateSync } from "node:zlib";
+import sharp from "sharp";
+import { config } from "../../src/config";
+import { ImageTooLargeError } from "../../src/utils/errors";
+import { assertInputDimensions } from "../../src/utils/input-limits";
+
+const original = {
+  maxInputPixels: config.maxInputPixels,
+  maxInputWidth: config.maxInputWidth,
+  maxInputHeight: config.maxInputHeight,
+};
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body) >>> 0);
+  return Buffer.concat([length, body, crc]);
+}
+
+// A tiny PNG whose header declares a huge 1-bit image
+function createPngBomb(width: number, height: number): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 1; // Bit depth
+  header[9] = 0; // Grayscale
+  return Buffer.concat([
+    Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(Buffer.alloc(0))),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+function createImage(width: number, height: number): Promise<Buffer> {
+  return sharp({
+    create: { width, height, channels: 3, background: "#000" },
+  })
+    .png()
+    .toBuffer();
+}
+
+describe("Input Limits", () => {
+  afterEach(() => {
+    Object.assign(config, original);
+  });
+
+  test("accepts images within the limits", async () => {
+    await expect(
+      assertInputDimensions(await createImage(64, 32)),
+    ).resolves.toBeUndefined();
+  });
+
+  test("rejects decompression bombs from the header alone", async () => {
+    const bomb = createPngBomb(50000, 50000);
+    expect(bomb.length).toBeLessThan(100);
+
+    await expect(assertInputDimensions(bomb)).rejects.toThrow(
+      ImageTooLargeError,
+    );
+  });
+
+  test("rejects images over the pixel limit", async () => {
+    config.maxInputPixels = 1000;
+    await expect(
+      assertInputDimensions(await createImage(50, 50)),
+    ).rejects.toThrow("more than the 1000 limit");
+  });
+
+  test("rejects images over the width or height limit", async () => {
+    config.maxInputWidth = 40;
+    await expect(
+      assertInputDimensions(await createImage(50, 10), "Watermark image"),
+    ).rejects.toThrow("Watermark image is 50x10");
+
+    config.maxInputWidth = original.maxInputWidth;
+    config.maxInputHeight = 5;
+    await expect(
+      assertInputDimensions(await createImage(10, 10)),
+    ).rejects.toThrow(ImageTooLargeError);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, test } from "bun:test";
+import { encodeMultipart } from "../../src/utils/multipart";
+
+describe("Multipart Encoding", () => {
+  test("content type carries the boundary", () => {
+    const { contentType } = encodeMultipart([]);
+    expect(contentType).toMatch(/^multipart\/mixed; boundary=pixelserve-/);
+  });
+
+  test("encodes each part with headers and body", () => {
+    const { body, contentType } = encodeMultipart([
+      { headers: { "Content-Type": "image/png" }, body: Buffer.from("one") },
+      { headers: { "Content-Type": "image/webp" }, body: Buffer.from("two") },
+    ]);
+    const boundary = contentType.split("boundary=")[1];
+
+    expect(body.toString()).toBe(
+      `--${boundary}\r\nContent-Type: image/png\r\n\r\none\r\n` +
+        `--${boundary}\r\nContent-Type: image/webp\r\n\r\ntwo\r\n` +
+        `--${boundary}--\r\n`,
+    );
+  });
+
+  test("preserves binary bodies", () => {
+    const data = Buffer.from([0, 255, 13, 10, 1]);
+    const { body } = encodeMultipart([{ headers: {}, body: data }]);
+    expect(body.includes(data)).toBe(true);
+  });
+});
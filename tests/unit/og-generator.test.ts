@@ -0,0 +1,106 @@
+import { describe, expect, test } from "bun:test";
+import type { ElementNode } from "../../src/services/custom-templates";
+import {
+  inlineRemoteImages,
+  resolveTemplateName,
+} from "../../src/services/og-generator";
+import { ForbiddenError, ValidationError } from "../../src/utils/errors";
+
+const PNG = "data:image/png;base64,iVBORw0KGgo=";
+
+function node(props: Record<string, unknown>): ElementNode {
+  return { type: "div", props };
+}
+
+function styleOf(element: ElementNode): Record<string, unknown> {
+  return element.props.style as Record<string, unknown>;
+}
+
+describe("OG Generator", () => {
+  describe("resolveTemplateName", () => {
+    test("names the template a request renders with", async () => {
+      expect(await resolveTemplateName({ template: "gradient" })).toBe(
+        "gradient",
+      );
+    });
+
+    test("tags requests without a known template as default", async () => {
+      expect(await resolveTemplateName({})).toBe("default");
+      expect(await resolveTemplateName({ template: "missing" })).toBe(
+        "default",
+      );
+    });
+
+    test("leaves inline templates untagged", async () => {
+      expect(await resolveTemplateName({ config: "e30" })).toBeNull();
+    });
+  });
+
+  describe("inlineRemoteImages", () => {
+    test("keeps data: image URLs", async () => {
+      const element = node({ style: { backgroundImage: `url("${PNG}")` } });
+      await inlineRemoteImages(element);
+      expect(styleOf(element).backgroundImage).toBe(`url(${PNG})`);
+    });
+
+    test("fetches remote URLs through the SSRF checks, whatever their case", async () => {
+      for (const backgroundImage of [
+        "url(HTTP://169.254.169.254/)",
+        "URL('http://127.0.0.1/a.png')",
+        `url(${PNG}), url(http://127.0.0.1/b.png)`,
+      ]) {
+        const element = node({ style: { backgroundImage } });
+        await expect(inlineRemoteImages(element)).rejects.toThrow(
+          ForbiddenError,
+        );
+      }
+    });
+
+    test("strips url() values that aren't remote or data images", async () => {
+      const element = node({
+        style: {
+          backgroundImage: "url(file:///etc/passwd)",
+          background: "url(//127.0.0.1/a.png) no-repeat, #000",
+        },
+      });
+      await inlineRemoteImages(element);
+      expect(styleOf(element).backgroundImage).toBe("none");
+      expect(styleOf(element).background).toBe("none no-repeat, #000");
+    });
+
+    test("rejects url() values it can't parse", async () => {
+      const element = node({
+        style: { backgroundImage: "url('http://127.0.0.1/a.png" },
+      });
+      await expect(inlineRemoteImages(element)).rejects.toThrow(
+        ValidationError,
+      );
+    });
+
+    test("rejects unterminated url() values in linear time", async () => {
+      const start = performance.now();
+      const element = node({
+        style: { backgroundImage: `url(${" ".repeat(10_000)}` },
+      });
+      await expect(inlineRemoteImages(element)).rejects.toThrow(
+        ValidationError,
+      );
+      expect(performance.now() - start).toBeLessThan(500);
+    });
+
+    test("checks image sources in nested elements", async () => {
+      const image: ElementNode = {
+        type: "img",
+        props: { src: "http://127.0.0.1/logo.png" },
+      };
+      await expect(
+        inlineRemoteImages(node({ children: [image] })),
+      ).rejects.toThrow(ForbiddenError);
+
+      const local: ElementNode = { type: "img", props: { src: "/logo.png" } };
+      await expect(
+        inlineRemoteImages(node({ children: [local] })),
+      ).rejects.toThrow("Unsupported image source");
+    });
+  });
+});
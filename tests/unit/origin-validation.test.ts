@@ -7,7 +7,8 @@ function createAppWithOriginValidation(allowedOrigins: string[]) {
     .onRequest(createOriginGuard(allowedOrigins))
     .get("/", () => ({ status: "ok" }))
     .get("/health", () => ({ status: "healthy" }))
-    .get("/image", () => ({ status: "ok" }));
+    .get("/image", () => ({ status: "ok" }))
+    .delete("/admin/cache", () => ({ flushed: true }));
 }
 
 describe("Origin Validation", () => {
@@ -78,6 +79,13 @@ describe("Origin Validation", () => {
       expect(response.status).toBe(200);
     });
 
+    test("leaves the admin API to its token guard", async () => {
+      const response = await app.handle(
+        new Request("http://localhost/admin/cache", { method: "DELETE" }),
+      );
+      expect(response.status).toBe(200);
+    });
+
     test("allows subdomain matching", async () => {
       const response = await app.handle(
         new Request("http://localhost/", {
@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test";
+import { ValidationError } from "../../src/utils/errors";
+import { parseImagePath, parsePathOptions } from "../../src/utils/path-options";
+
+describe("Path Options", () => {
+  describe("parsePathOptions", () => {
+    test("parses key_value pairs", () => {
+      expect(parsePathOptions("w_400,h_300,fit_cover")).toEqual({
+        w: "400",
+        h: "300",
+        fit: "cover",
+      });
+    });
+
+    test("expands the f alias to format", () => {
+      expect(parsePathOptions("f_webp")).toEqual({ format: "webp" });
+    });
+
+    test("keeps the wm_ prefix in watermark keys", () => {
+      expect(parsePathOptions("wm_text_Hello%20World,wm_opacity_0.5")).toEqual({
+        wm_text: "Hello World",
+        wm_opacity: "0.5",
+      });
+    });
+
+    test("keeps underscores in encoder option keys", () => {
+      expect(
+        parsePathOptions("near_lossless,chroma_subsampling_4:4:4,effort_4"),
+      ).toEqual({
+        near_lossless: "true",
+        chroma_subsampling: "4:4:4",
+        effort: "4",
+      });
+    });
+
+    test("treats a bare key as true", () => {
+      expect(parsePathOptions("grayscale,flip")).toEqual({
+        grayscale: "true",
+        flip: "true",
+      });
+    });
+
+    test("accepts colons in crop", () => {
+      expect(parsePathOptions("crop_10:20:300:400")).toEqual({
+        crop: "10,20,300,400",
+      });
+    });
+
+    test("decodes values", () => {
+      expect(parsePathOptions("position_top%20left")).toEqual({
+        position: "top left",
+      });
+    });
+
+    test("ignores empty tokens", () => {
+      expect(parsePathOptions("w_400,,")).toEqual({ w: "400" });
+    });
+
+    test("rejects reserved keys", () => {
+      expect(() => parsePathOptions("url_https%3A%2F%2Fexample.com")).toThrow(
+        ValidationError,
+      );
+      expect(() => parsePathOptions("s_abc")).toThrow(ValidationError);
+    });
+
+    test("rejects malformed encoding", () => {
+      expect(() => parsePathOptions("wm_text_%E0%A4%A")).toThrow(
+        ValidationError,
+      );
+    });
+  });
+
+  describe("parseImagePath", () => {
+    test("decodes the source URL", () => {
+      expect(
+        parseImagePath("w_400", "https%3A%2F%2Fexample.com%2Fa.jpg%3Fv%3D1"),
+      ).toEqual({ w: "400", url: "https://example.com/a.jpg?v=1" });
+    });
+
+    test("accepts an unencoded source URL", () => {
+      expect(parseImagePath("w_400", "https://example.com/a.jpg")).toEqual({
+        w: "400",
+        url: "https://example.com/a.jpg",
+      });
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  getPreset,
+  getPresetNames,
+  loadPresets,
+} from "../../src/services/presets";
+
+describe("Presets", () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "pixelserve-presets-"));
+    await Bun.write(
+      join(tempDir, "card.json"),
+      JSON.stringify({
+        name: "card",
+        strict: true,
+        params: { w: 600, format: "webp", url: "https://example.com/x.png" },
+      }),
+    );
+    await Bun.write(
+      join(tempDir, "no-params.json"),
+      JSON.stringify({ name: "no-params" }),
+    );
+    await Bun.write(join(tempDir, "broken.json"), "{ not json");
+    await loadPresets(tempDir);
+  });
+
+  afterAll(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  test("loads presets by name", () => {
+    const preset = getPreset("card");
+    expect(preset).toBeDefined();
+    expect(preset?.strict).toBe(true);
+    expect(preset?.params.w).toBe(600);
+    expect(preset?.params.format).toBe("webp");
+  });
+
+  test("strips url from preset params", () => {
+    expect(getPreset("card")?.params).not.toHaveProperty("url");
+  });
+
+  test("skips files without params or with invalid JSON", () => {
+    expect(getPresetNames()).toContain("card");
+    expect(getPresetNames()).not.toContain("no-params");
+    expect(getPreset("broken")).toBeUndefined();
+  });
+
+  test("ignores a missing directory", async () => {
+    await expect(
+      loadPresets(join(tempDir, "does-not-exist")),
+    ).resolves.toBeUndefined();
+  });
+});
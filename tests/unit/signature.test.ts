@@ -0,0 +1,221 @@
+import { describe, expect, test } from "bun:test";
+import { createHmac } from "node:crypto";
+import { UnauthorizedError } from "../../src/utils/errors";
+import {
+  computeSignature,
+  signUrl,
+  verifyBodyDigest,
+  verifySignature,
+} from "../../src/utils/signature";
+
+const SECRET = "test-secret";
+
+function paramsOf(url: string): Record<string, string> {
+  return Object.fromEntries(new URL(url).searchParams);
+}
+
+describe("URL Signature", () => {
+  describe("computeSignature", () => {
+    test("is order-independent (params sorted)", () => {
+      const sig1 = computeSignature("image", { url: "a", w: 100 }, SECRET);
+      const sig2 = computeSignature("image", { w: 100, url: "a" }, SECRET);
+      expect(sig1).toBe(sig2);
+    });
+
+    test("ignores the signature param itself", () => {
+      const sig1 = computeSignature("image", { url: "a" }, SECRET);
+      const sig2 = computeSignature("image", { url: "a", s: "xyz" }, SECRET);
+      expect(sig1).toBe(sig2);
+    });
+
+    test("doesn't confuse params embedded in a value with real ones", () => {
+      const embedded = computeSignature(
+        "image",
+        { url: "https://example.com/a.png?x=1&w=4000" },
+        SECRET,
+      );
+      const separate = computeSignature(
+        "image",
+        { url: "https://example.com/a.png?x=1", w: 4000 },
+        SECRET,
+      );
+      expect(embedded).not.toBe(separate);
+    });
+
+    test("signs the documented percent-encoded string", () => {
+      const expected = createHmac("sha256", SECRET)
+        .update("image?text=a%20b*%2B(c)&w=100")
+        .digest("base64url");
+      expect(
+        computeSignature("image", { w: 100, text: "a b*+(c)" }, SECRET),
+      ).toBe(expected);
+    });
+
+    test("differs between scopes", () => {
+      const sig1 = computeSignature("image", { w: 100 }, SECRET);
+      const sig2 = computeSignature("og", { w: 100 }, SECRET);
+      expect(sig1).not.toBe(sig2);
+    });
+
+    test("differs between secrets", () => {
+      const sig1 = computeSignature("image", { w: 100 }, SECRET);
+      const sig2 = computeSignature("image", { w: 100 }, "other-secret");
+      expect(sig1).not.toBe(sig2);
+    });
+  });
+
+  describe("verifyBodyDigest", () => {
+    const body = JSON.stringify({ url: "https://example.com/a.jpg" });
+
+    test("accepts the body a URL was signed for", () => {
+      const url = signUrl(
+        "https://img.example.com/image/batch",
+        {},
+        { secret: SECRET, body },
+      );
+
+      expect(() =>
+        verifySignature("batch", paramsOf(url), SECRET),
+      ).not.toThrow();
+      expect(() =>
+        verifyBodyDigest(paramsOf(url), Buffer.from(body)),
+      ).not.toThrow();
+    });
+
+    test("rejects a different body", () => {
+      const url = signUrl(
+        "https://img.example.com/image/batch",
+        {},
+        { secret: SECRET, body },
+      );
+
+      expect(() =>
+        verifyBodyDigest(paramsOf(url), Buffer.from(`${body} `)),
+      ).toThrow(UnauthorizedError);
+    });
+
+    test("rejects a missing digest", () => {
+      expect(() => verifyBodyDigest({}, Buffer.from(body))).toThrow(
+        "Missing request body digest",
+      );
+    });
+  });
+
+  describe("signUrl", () => {
+    test("produces a URL that verifies", () => {
+      const url = signUrl(
+        "https://img.example.com/image",
+        { url: "https://example.com/a.jpg", w: 400 },
+        { secret: SECRET },
+      );
+
+      expect(paramsOf(url).s).toBeDefined();
+      expect(() =>
+        verifySignature("image", paramsOf(url), SECRET),
+      ).not.toThrow();
+    });
+
+    test("infers og scope from the base URL path", () => {
+      const url = signUrl(
+        "https://img.example.com/og",
+        { title: "Hello" },
+        { secret: SECRET },
+      );
+
+      expect(() => verifySignature("og", paramsOf(url), SECRET)).not.toThrow();
+      expect(() => verifySignature("image", paramsOf(url), SECRET)).toThrow(
+        UnauthorizedError,
+      );
+    });
+
+    test("infers srcset scope from the base URL path", () => {
+      const url = signUrl(
+        "https://img.example.com/image/srcset",
+        { url: "https://example.com/a.jpg" },
+        { secret: SECRET },
+      );
+
+      expect(() =>
+        verifySignature("srcset", paramsOf(url), SECRET),
+      ).not.toThrow();
+      expect(() => verifySignature("image", paramsOf(url), SECRET)).toThrow(
+        UnauthorizedError,
+      );
+    });
+
+    test("omits undefined params", () => {
+      const url = signUrl(
+        "https://img.example.com/image",
+        { url: "https://example.com/a.jpg", w: undefined },
+        { secret: SECRET },
+      );
+
+      expect(paramsOf(url).w).toBeUndefined();
+    });
+
+    test("adds a signed expiry", () => {
+      const url = signUrl(
+        "https://img.example.com/image",
+        { url: "https://example.com/a.jpg" },
+        { secret: SECRET, expiresAt: 2_000_000_000 },
+      );
+
+      expect(paramsOf(url).exp).toBe("2000000000");
+    });
+
+    test("throws without a secret", () => {
+      expect(() =>
+        signUrl("https://img.example.com/image", { url: "a" }, { secret: "" }),
+      ).toThrow();
+    });
+  });
+
+  describe("verifySignature", () => {
+    test("rejects a missing signature", () => {
+      expect(() => verifySignature("image", { url: "a" }, SECRET)).toThrow(
+        "Missing URL signature",
+      );
+    });
+
+    test("rejects tampered params", () => {
+      const params = paramsOf(
+        signUrl(
+          "https://x.test/image",
+          { url: "a", w: 100 },
+          { secret: SECRET },
+        ),
+      );
+      params.w = "4000";
+
+      expect(() => verifySignature("image", params, SECRET)).toThrow(
+        "Invalid URL signature",
+      );
+    });
+
+    test("rejects expired URLs", () => {
+      const params = paramsOf(
+        signUrl(
+          "https://x.test/image",
+          { url: "a" },
+          { secret: SECRET, expiresAt: 1000 },
+        ),
+      );
+
+      expect(() => verifySignature("image", params, SECRET)).toThrow(
+        "URL signature has expired",
+      );
+    });
+
+    test("accepts URLs before their expiry", () => {
+      const params = paramsOf(
+        signUrl(
+          "https://x.test/image",
+          { url: "a" },
+          { secret: SECRET, expiresIn: 60 },
+        ),
+      );
+
+      expect(() => verifySignature("image", params, SECRET)).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import { createSingleFlight } from "../../src/utils/single-flight";
+
+describe("Single Flight", () => {
+  test("concurrent calls with the same key share one execution", async () => {
+    const flight = createSingleFlight<number>();
+    let calls = 0;
+    const work = async () => {
+      calls++;
+      await Bun.sleep(10);
+      return 42;
+    };
+
+    const results = await Promise.all([
+      flight.run("a", work),
+      flight.run("a", work),
+      flight.run("a", work),
+    ]);
+
+    expect(results).toEqual([42, 42, 42]);
+    expect(calls).toBe(1);
+  });
+
+  test("different keys run independently", async () => {
+    const flight = createSingleFlight<string>();
+    const results = await Promise.all([
+      flight.run("a", async () => "a"),
+      flight.run("b", async () => "b"),
+    ]);
+
+    expect(results).toEqual(["a", "b"]);
+  });
+
+  test("forgets a key once its call settles", async () => {
+    const flight = createSingleFlight<number>();
+    let calls = 0;
+    const work = async () => ++calls;
+
+    await flight.run("a", work);
+    expect(flight.size()).toBe(0);
+    await flight.run("a", work);
+    expect(calls).toBe(2);
+  });
+
+  test("shares rejections and allows a retry afterwards", async () => {
+    const flight = createSingleFlight<number>();
+    const first = flight.run("a", async () => {
+      await Bun.sleep(5);
+      throw new Error("render failed");
+    });
+    const second = flight.run("a", async () => 1);
+    await expect(first).rejects.toThrow("render failed");
+    await expect(second).rejects.toThrow("render failed");
+
+    expect(await flight.run("a", async () => 1)).toBe(1);
+  });
+});
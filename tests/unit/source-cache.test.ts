@@ -0,0 +1,178 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import sharp from "sharp";
+import { config } from "../../src/config";
+import { getCachedSource, setCachedSource } from "../../src/services/cache";
+import {
+  getSourceCacheStats,
+  getSourceImage,
+} from "../../src/services/source-cache";
+
+const original = {
+  allowSelfReference: config.allowSelfReference,
+  cacheMode: config.cacheMode,
+  cacheStaleTTL: config.cacheStaleTTL,
+  sourceCacheTTL: config.sourceCacheTTL,
+};
+
+// Local origin with ETag support, reachable through the self-reference allowance
+let server: ReturnType<typeof Bun.serve>;
+let png: Buffer;
+let version = "v1";
+let originDown = false;
+let requests: { path: string; ifNoneMatch: string | null }[] = [];
+
+const url = (path: string) => `http://127.0.0.1:${server.port}/image${path}`;
+
+describe("Source Cache", () => {
+  beforeAll(async () => {
+    config.allowSelfReference = true;
+    config.cacheMode = "memory";
+    config.sourceCacheTTL = 3600;
+    png = await sharp({
+      create: {
+        width: 8,
+        height: 8,
+        channels: 3,
+        background: { r: 255, g: 255, b: 0 },
+      },
+    })
+      .png()
+      .toBuffer();
+
+    server = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      async fetch(req) {
+        const { pathname } = new URL(req.url);
+        const ifNoneMatch = req.headers.get("If-None-Match");
+        requests.push({ path: pathname, ifNoneMatch });
+
+        if (originDown) {
+          return new Response("Unavailable", { status: 503 });
+        }
+        if (pathname === "/image/slow") {
+          await Bun.sleep(20);
+        }
+
+        const etag = `"${version}"`;
+        if (ifNoneMatch === etag) {
+          return new Response(null, { status: 304, headers: { ETag: etag } });
+        }
+        return new Response(png, { headers: { ETag: etag } });
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+    Object.assign(config, original);
+  });
+
+  beforeEach(() => {
+    requests = [];
+    version = "v1";
+    originDown = false;
+  });
+
+  test("serves fresh sources without contacting the origin", async () => {
+    const before = getSourceCacheStats();
+    const first = await getSourceImage(url("/fresh.png"));
+    const second = await getSourceImage(url("/fresh.png"));
+
+    expect(first.equals(png)).toBe(true);
+    expect(second.equals(png)).toBe(true);
+    expect(requests).toHaveLength(1);
+    expect(getSourceCacheStats().hits).toBe(before.hits + 1);
+  });
+
+  test("revalidates stale sources with the stored ETag", async () => {
+    const source = url("/stale.png");
+    await getSourceImage(source);
+    const cached = await getCachedSource(source);
+    expect(cached?.etag).toBe('"v1"');
+
+    // Age the entry past the freshness window
+    await setCachedSource(source, {
+      ...(cached as NonNullable<typeof cached>),
+      createdAt: Date.now() - 2 * 3600 * 1000,
+    });
+    const before = getSourceCacheStats().revalidated;
+
+    const data = await getSourceImage(source);
+
+    expect(data.equals(png)).toBe(true);
+    expect(requests.at(-1)?.ifNoneMatch).toBe('"v1"');
+    expect(getSourceCacheStats().revalidated).toBe(before + 1);
+    expect((await getCachedSource(source))?.createdAt).toBeGreaterThan(
+      Date.now() - 1000,
+    );
+  });
+
+  test("replaces stale sources that changed at the origin", async () => {
+    const source = url("/changed.png");
+    await getSourceImage(source);
+    const cached = await getCachedSource(source);
+    await setCachedSource(source, {
+      ...(cached as NonNullable<typeof cached>),
+      createdAt: 0,
+    });
+
+    version = "v2";
+    await getSourceImage(source);
+
+    expect((await getCachedSource(source))?.etag).toBe('"v2"');
+  });
+
+  test("serves stale sources while the origin is down", async () => {
+    const source = url("/down.png");
+    await getSourceImage(source);
+    const cached = await getCachedSource(source);
+    await setCachedSource(source, {
+      ...(cached as NonNullable<typeof cached>),
+      createdAt: Date.now() - 2 * 3600 * 1000,
+    });
+    originDown = true;
+
+    // Without a stale window the fetch error surfaces
+    config.cacheStaleTTL = 0;
+    await expect(getSourceImage(source)).rejects.toThrow("503");
+
+    config.cacheStaleTTL = 3600;
+    try {
+      const before = getSourceCacheStats().staleServed;
+      const data = await getSourceImage(source);
+
+      expect(data.equals(png)).toBe(true);
+      expect(getSourceCacheStats().staleServed).toBe(before + 1);
+    } finally {
+      config.cacheStaleTTL = original.cacheStaleTTL;
+    }
+  });
+
+  test("coalesces concurrent loads of one source", async () => {
+    const results = await Promise.all(
+      Array.from({ length: 4 }, () => getSourceImage(url("/slow"))),
+    );
+
+    expect(results.every((data) => data.equals(png))).toBe(true);
+    expect(requests).toHaveLength(1);
+  });
+
+  test("is bypassed when SOURCE_CACHE_TTL is 0", async () => {
+    config.sourceCacheTTL = 0;
+    try {
+      await getSourceImage(url("/disabled.png"));
+      await getSourceImage(url("/disabled.png"));
+      expect(requests).toHaveLength(2);
+    } finally {
+      config.sourceCacheTTL = 3600;
+    }
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, test } from "bun:test";
+import { DEFAULT_SRCSET_WIDTHS } from "../../src/constants";
+import {
+  buildSrcset,
+  getSrcsetVariants,
+  getSrcsetWidths,
+} from "../../src/services/srcset";
+import { ValidationError } from "../../src/utils/errors";
+
+describe("Srcset", () => {
+  describe("getSrcsetWidths", () => {
+    test("parses an explicit list, sorted and deduplicated", () => {
+      expect(getSrcsetWidths({ widths: "640,320,640" }, 4096)).toEqual([
+        320, 640,
+      ]);
+    });
+
+    test("builds a range from min/max/step", () => {
+      expect(getSrcsetWidths({ min: 300, max: 900, step: 200 }, 4096)).toEqual([
+        300, 500, 700, 900,
+      ]);
+    });
+
+    test("always includes max in a range", () => {
+      expect(getSrcsetWidths({ min: 300, max: 800, step: 200 }, 4096)).toEqual([
+        300, 500, 700, 800,
+      ]);
+    });
+
+    test("falls back to default widths", () => {
+      expect(getSrcsetWidths({}, 4096)).toEqual(DEFAULT_SRCSET_WIDTHS);
+    });
+
+    test("clamps widths to the max width", () => {
+      expect(getSrcsetWidths({ widths: "1000,5000,6000" }, 4096)).toEqual([
+        1000, 4096,
+      ]);
+    });
+
+    test("requires both min and max", () => {
+      expect(() => getSrcsetWidths({ min: 300 }, 4096)).toThrow(
+        ValidationError,
+      );
+    });
+
+    test("rejects min greater than max", () => {
+      expect(() => getSrcsetWidths({ min: 900, max: 300 }, 4096)).toThrow(
+        ValidationError,
+      );
+    });
+
+    test("rejects too many widths", () => {
+      expect(() =>
+        getSrcsetWidths({ min: 1, max: 4096, step: 1 }, 4096),
+      ).toThrow("Too many srcset widths");
+    });
+
+    test("clamps a range to the max width before expanding it", () => {
+      expect(getSrcsetWidths({ min: 3000, max: 1e9, step: 500 }, 4096)).toEqual(
+        [3000, 3500, 4000, 4096],
+      );
+      expect(getSrcsetWidths({ min: 5000, max: 6000 }, 4096)).toEqual([4096]);
+    });
+
+    test("rejects huge ranges without building them", () => {
+      expect(() =>
+        getSrcsetWidths({ min: 1, max: 1e12, step: 1 }, 1e12),
+      ).toThrow("Too many srcset widths");
+    });
+  });
+
+  describe("getSrcsetVariants", () => {
+    test("sets the width on each variant", () => {
+      const variants = getSrcsetVariants(
+        { url: "https://example.com/a.jpg", format: "webp" },
+        [320, 640],
+        4096,
+      );
+
+      expect(variants.map((v) => v.params.w)).toEqual([320, 640]);
+      expect(variants[0]?.params.format).toBe("webp");
+      expect(variants[0]?.height).toBeUndefined();
+    });
+
+    test("keeps the aspect ratio of w and h", () => {
+      const variants = getSrcsetVariants(
+        { url: "https://example.com/a.jpg", w: 400, h: 300 },
+        [320, 640],
+        4096,
+      );
+
+      expect(variants.map((v) => v.params.h)).toEqual([240, 480]);
+    });
+
+    test("drops dpr, as width descriptors are device pixels", () => {
+      const variants = getSrcsetVariants(
+        { url: "https://example.com/a.jpg", dpr: 2 },
+        [320],
+        4096,
+      );
+
+      expect(variants[0]?.params.dpr).toBeUndefined();
+    });
+
+    test("drops percentage size", () => {
+      const variants = getSrcsetVariants(
+        { url: "https://example.com/a.jpg", size: 50 },
+        [320],
+        4096,
+      );
+
+      expect(variants[0]?.params.size).toBeUndefined();
+    });
+
+    test("rejects h without w", () => {
+      expect(() =>
+        getSrcsetVariants(
+          { url: "https://example.com/a.jpg", h: 300 },
+          [320],
+          4096,
+        ),
+      ).toThrow(ValidationError);
+    });
+  });
+
+  describe("buildSrcset", () => {
+    test("joins URLs with width descriptors", () => {
+      expect(
+        buildSrcset([
+          { url: "https://x.test/a?w=320", width: 320 },
+          { url: "https://x.test/a?w=640", width: 640 },
+        ]),
+      ).toBe("https://x.test/a?w=320 320w, https://x.test/a?w=640 640w");
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, test } from "bun:test";
+import { isSvg, sanitizeSvg } from "../../src/utils/svg";
+
+function sanitize(svg: string): string {
+  return sanitizeSvg(Buffer.from(svg)).toString("utf-8");
+}
+
+const open = '<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10">';
+
+describe("SVG", () => {
+  describe("isSvg", () => {
+    test("detects an svg root element", () => {
+      expect(isSvg(Buffer.from(`${open}</svg>`))).toBe(true);
+    });
+
+    test("allows a declaration, comments and a doctype first", () => {
+      const svg = `\uFEFF<?xml version="1.0"?>
+<!-- exported -->
+<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" "http://www.w3.org/Graphics/SVG/1.1/DTD/svg11.dtd">
+${open}</svg>`;
+      expect(isSvg(Buffer.from(svg))).toBe(true);
+    });
+
+    test("rejects other markup", () => {
+      expect(isSvg(Buffer.from("<html><svg></svg></html>"))).toBe(false);
+      expect(isSvg(Buffer.from("<svgfoo/>"))).toBe(false);
+      expect(isSvg(Buffer.from("<!-- unterminated <svg>"))).toBe(false);
+    });
+
+    test("allows a doctype with an internal subset", () => {
+      const svg = `<!DOCTYPE svg [<!ENTITY a "b">]>${open}</svg>`;
+      expect(isSvg(Buffer.from(svg))).toBe(true);
+    });
+
+    test("scans repeated comments in linear time", () => {
+      const start = performance.now();
+      expect(isSvg(Buffer.from("<!--x-->".repeat(8000)))).toBe(false);
+      expect(isSvg(Buffer.from(`${"<!--x-->".repeat(8000)}${open}`))).toBe(
+        true,
+      );
+      expect(performance.now() - start).toBeLessThan(500);
+    });
+  });
+
+  describe("sanitizeSvg", () => {
+    test("keeps rendering elements and attributes", () => {
+      const svg = `${open}<rect width="10" height="10" fill="red"/></svg>`;
+      expect(sanitize(svg)).toBe(svg);
+    });
+
+    test("removes scripts and event handlers", () => {
+      const output = sanitize(
+        `${open}<script>alert(1)</script><rect onload="alert(2)" ONCLICK="x()"/></svg>`,
+      );
+      expect(output).not.toContain("script");
+      expect(output).not.toContain("alert");
+      expect(output).not.toMatch(/onclick/i);
+      expect(output).toContain("<rect/>");
+    });
+
+    test("removes foreignObject and its content", () => {
+      const output = sanitize(
+        `${open}<foreignObject><iframe src="http://127.0.0.1/"></iframe></foreignObject></svg>`,
+      );
+      expect(output).toBe(`${open}</svg>`);
+    });
+
+    test("removes external hrefs", () => {
+      const output = sanitize(
+        `${open}<image href="http://169.254.169.254/latest"/><use xlink:href="file:///etc/passwd#x"/><a href="javascript:alert(1)"/></svg>`,
+      );
+      expect(output).not.toContain("169.254");
+      expect(output).not.toContain("file:");
+      expect(output).not.toContain("javascript:");
+    });
+
+    test("removes hrefs hidden behind entities", () => {
+      const output = sanitize(
+        `${open}<image href="&#x68;ttp://127.0.0.1/a.png"/></svg>`,
+      );
+      expect(output).toContain("<image/>");
+    });
+
+    test("keeps fragment and inline raster hrefs", () => {
+      const png = "data:image/png;base64,iVBORw0KGgo=";
+      const output = sanitize(
+        `${open}<use href="#shape"/><image href="${png}"/></svg>`,
+      );
+      expect(output).toContain('href="#shape"');
+      expect(output).toContain(`href="${png}"`);
+    });
+
+    test("removes external CSS references", () => {
+      const output = sanitize(
+        `${open}<style>@import "http://evil/x.css"; rect { fill: url(http://evil/p) }</style><rect style="fill: url('//evil/p')" fill="url(#grad)"/></svg>`,
+      );
+      expect(output).not.toContain("evil");
+      expect(output).not.toContain("@import");
+      expect(output).toContain('fill="url(#grad)"');
+    });
+
+    test("drops CSS that uses escapes", () => {
+      const output = sanitize(
+        `${open}<rect style="fill: \\75rl(http://evil/p)"/></svg>`,
+      );
+      expect(output).not.toContain("evil");
+    });
+
+    test("removes doctype entity declarations", () => {
+      const output = sanitize(
+        `<!DOCTYPE svg [<!ENTITY xxe SYSTEM "file:///etc/passwd">]>${open}<text>&xxe;</text></svg>`,
+      );
+      expect(output).not.toContain("ENTITY");
+      expect(output).not.toContain("/etc/passwd");
+      expect(output.startsWith("<svg")).toBe(true);
+    });
+  });
+});